@@ -0,0 +1,83 @@
+// Example tool pack: start a monorepo's services in panes of their own tab.
+//
+// ~/.config/zellij-mcp/config.json:
+// {
+//   "toolPacks": [{
+//     "path": "/path/to/zellij-mcp-server/examples/tool-packs/monorepo.js",
+//     "namespace": "acme",
+//     "options": {
+//       "root": "/src/monorepo",
+//       "services": [
+//         { "name": "api", "command": "npm run dev --workspace api" },
+//         { "name": "web", "command": "npm run dev --workspace web" }
+//       ]
+//     }
+//   }]
+// }
+//
+// This adds acme_start_services and acme_service_panes.
+
+/** @type {import('../../dist/packs.js').ToolPack} */
+export default {
+  namespace: 'monorepo',
+  description: 'Start monorepo services in panes',
+
+  tools(context) {
+    const { root, services = [] } = context.options;
+    if (typeof root !== 'string' || !Array.isArray(services)) {
+      throw new context.errors.ValidationError('options.root must be a path and options.services an array');
+    }
+
+    return [
+      context.defineTool({
+        name: 'start_services',
+        description: `Open a "services" tab and start ${services.map(service => service.name).join(', ') || 'the configured services'} in panes`,
+        annotations: context.annotations.RUNS_COMMANDS,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            only: { type: 'array', items: { type: 'string' }, description: 'Service names to start (default: all)' },
+            session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+          },
+          required: [],
+        },
+        handler: async args => {
+          const selected = services.filter(service => !args.only || args.only.includes(service.name));
+          if (selected.length === 0) {
+            throw new context.errors.ValidationError(`No matching services; configured: ${services.map(service => service.name).join(', ')}`);
+          }
+
+          await context.tabs.newTab('services', undefined, args.session_name);
+          for (const [index, service] of selected.entries()) {
+            // The new tab already has one empty pane; later services split it
+            await context.panes.newPane(index === 0 ? 'right' : 'down', service.command, service.cwd ?? root, args.session_name);
+          }
+          context.log(`started ${selected.length} services`);
+
+          return { content: [{ type: 'text', text: `Started ${selected.map(service => service.name).join(', ')} in tab "services"` }] };
+        }
+      }),
+
+      context.defineTool({
+        name: 'service_panes',
+        description: 'Show which configured services have a pane running their command',
+        annotations: context.annotations.READ_ONLY,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+          },
+          required: [],
+        },
+        handler: async args => {
+          const panes = await context.panes.getPanes(args.session_name);
+          const lines = services.map(service => {
+            const pane = panes.find(pane => pane.command && [pane.command, ...(pane.args ?? [])].join(' ') === service.command);
+            return `${service.name}: ${pane ? `${pane.id} (${pane.tab ?? 'unknown tab'})` : 'not running'}`;
+          });
+          return { content: [{ type: 'text', text: lines.join('\n') }] };
+        }
+      })
+    ];
+  }
+};
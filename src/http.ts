@@ -0,0 +1,253 @@
+// Streamable HTTP transport: lets several clients on this machine share one
+// server over a loopback port or a Unix socket, authenticated by a bearer token
+
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ValidationError } from './types/zellij.js';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { chmodSync, existsSync, lstatSync, readFileSync, unlinkSync } from 'fs';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+
+const MCP_PATH = '/mcp';
+const MIN_TOKEN_LENGTH = 16;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+// Sessions whose client went away without a DELETE are dropped after this
+// long with no requests and no open notification stream
+const SESSION_IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+const MAX_SESSIONS = 32;
+
+export interface HttpTransportOptions {
+  token: string;
+  host?: string; // TCP; loopback only
+  port?: number;
+  socketPath?: string; // Unix socket instead of a port
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  openStreams: number; // GET streams waiting for notifications
+}
+
+/**
+ * Read HTTP transport settings from the environment; undefined means stdio
+ */
+export function httpOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): HttpTransportOptions | undefined {
+  const { ZELLIJ_MCP_HTTP_PORT: port, ZELLIJ_MCP_HTTP_SOCKET: socketPath } = env;
+  if (!port && !socketPath) {
+    return undefined;
+  }
+  if (port && socketPath) {
+    throw new ValidationError('Set either ZELLIJ_MCP_HTTP_PORT or ZELLIJ_MCP_HTTP_SOCKET, not both');
+  }
+
+  const token = env.ZELLIJ_MCP_HTTP_TOKEN_FILE
+    ? readFileSync(env.ZELLIJ_MCP_HTTP_TOKEN_FILE, 'utf8').trim()
+    : env.ZELLIJ_MCP_HTTP_TOKEN ?? '';
+  if (token.length < MIN_TOKEN_LENGTH) {
+    throw new ValidationError(`The HTTP transport needs a bearer token of at least ${MIN_TOKEN_LENGTH} characters in ZELLIJ_MCP_HTTP_TOKEN or ZELLIJ_MCP_HTTP_TOKEN_FILE`);
+  }
+
+  if (socketPath) {
+    return { token, socketPath };
+  }
+
+  const portNumber = Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+    throw new ValidationError(`ZELLIJ_MCP_HTTP_PORT must be a port number, got ${port}`);
+  }
+  const host = env.ZELLIJ_MCP_HTTP_HOST || '127.0.0.1';
+  if (!LOOPBACK_HOSTS.includes(host)) {
+    throw new ValidationError(`ZELLIJ_MCP_HTTP_HOST must be a loopback address (${LOOPBACK_HOSTS.join(', ')})`);
+  }
+  return { token, host, port: portNumber };
+}
+
+export class McpHttpServer {
+  private sessions = new Map<string, HttpSession>();
+  private http: HttpServer;
+  private sweeper?: NodeJS.Timeout;
+  private readonly tokenDigest: Buffer;
+
+  /**
+   * `connect` attaches a fresh MCP server to each new client's transport
+   */
+  constructor(
+    private readonly options: HttpTransportOptions,
+    private readonly connect: (transport: StreamableHTTPServerTransport) => Promise<void>
+  ) {
+    this.tokenDigest = this.digest(options.token);
+    this.http = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('[HTTP] Request failed:', error);
+        if (!res.headersSent) {
+          this.reject(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Where clients should connect, for the startup banner
+   */
+  get address(): string {
+    return this.options.socketPath
+      ? `unix:${this.options.socketPath}`
+      : `http://${this.hostHeader()}${MCP_PATH}`;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async listen(): Promise<void> {
+    const { socketPath, host, port } = this.options;
+    if (socketPath) {
+      this.removeStaleSocket(socketPath);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.http.once('error', reject);
+      const ready = () => {
+        this.http.off('error', reject);
+        resolve();
+      };
+      if (socketPath) {
+        this.http.listen(socketPath, ready);
+      } else {
+        this.http.listen(port, host, ready);
+      }
+    });
+
+    if (socketPath) {
+      // The token is the real check, but other users have no business here
+      chmodSync(socketPath, 0o600);
+    }
+    this.sweeper = setInterval(() => this.closeIdleSessions(), 60000);
+    this.sweeper.unref();
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    await Promise.all([...this.sessions.values()].map(session => session.transport.close()));
+    this.sessions.clear();
+    await new Promise<void>(resolve => this.http.close(() => resolve()));
+    if (this.options.socketPath && existsSync(this.options.socketPath)) {
+      unlinkSync(this.options.socketPath);
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_PATH) {
+      this.reject(res, 404, -32000, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+    if (!this.authorized(req.headers.authorization)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="zellij-mcp"');
+      this.reject(res, 401, -32001, 'Missing or invalid bearer token');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.reject(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      if (req.method === 'GET') {
+        // A client listening for notifications is active for as long as it listens
+        session.openStreams++;
+        res.on('close', () => {
+          session.openStreams--;
+          session.lastSeen = Date.now();
+        });
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // No session header: only an initialize POST may open a new session,
+    // which the transport itself checks
+    if (req.method !== 'POST') {
+      this.reject(res, 400, -32000, 'Mcp-Session-Id header is required');
+      return;
+    }
+    if (this.sessions.size >= MAX_SESSIONS) {
+      this.reject(res, 503, -32000, `Too many sessions (${MAX_SESSIONS}); close one first`);
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { transport, lastSeen: Date.now(), openStreams: 0 });
+        console.error(`[HTTP] Session ${id} opened (${this.sessions.size} active)`);
+      },
+      // Host checks guard against DNS rebinding from a browser on this machine
+      enableDnsRebindingProtection: !this.options.socketPath,
+      allowedHosts: this.options.socketPath ? undefined : this.allowedHosts(),
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        console.error(`[HTTP] Session ${transport.sessionId} closed (${this.sessions.size} active)`);
+      }
+    };
+
+    await this.connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      // Not an initialize request, so the transport answered with an error
+      await transport.close();
+    }
+  }
+
+  private authorized(header: string | undefined): boolean {
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+    // Compare digests so neither length nor content leaks through timing
+    return !!match && timingSafeEqual(this.digest(match[1]), this.tokenDigest);
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of this.sessions) {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) {
+        console.error(`[HTTP] Closing idle session ${id}`);
+        session.transport.close().catch(error => console.error('[HTTP] Close failed:', error));
+      }
+    }
+  }
+
+  private hostHeader(): string {
+    const host = this.options.host ?? '127.0.0.1';
+    return `${host.includes(':') ? `[${host}]` : host}:${this.options.port}`;
+  }
+
+  private allowedHosts(): string[] {
+    const port = this.options.port;
+    return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  }
+
+  private removeStaleSocket(socketPath: string): void {
+    if (!existsSync(socketPath)) {
+      return;
+    }
+    if (!lstatSync(socketPath).isSocket()) {
+      throw new ValidationError(`${socketPath} exists and is not a socket`);
+    }
+    unlinkSync(socketPath);
+  }
+
+  private reject(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+}
@@ -0,0 +1,249 @@
+// Third-party tool packs: modules listed in the config file that add
+// namespaced tools built on the server's own helpers
+
+import { ToolRegistry, ToolDefinition, defineTool, READ_ONLY, UPDATES, DESTRUCTIVE, RUNS_COMMANDS } from './registry.js';
+import { SessionTools } from './tools/sessions.js';
+import { PaneTools } from './tools/panes.js';
+import { TabTools } from './tools/tabs.js';
+import { LayoutTools } from './tools/layouts.js';
+import { execZellij } from './utils/command.js';
+import { cache } from './utils/cache.js';
+import { Validator } from './utils/validator.js';
+import { ToolResponse, ValidationError, ZellijError } from './types/zellij.js';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+// No underscores, so the first one in a tool name always ends the namespace
+const NAMESPACE_PATTERN = /^[a-z][a-z0-9-]{0,23}$/;
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,39}$/;
+// Built-in tools all live under zellij_
+const RESERVED_NAMESPACES = ['zellij'];
+
+/**
+ * Everything a pack's tools get from the server
+ */
+export interface ToolPackContext {
+  namespace: string;
+  options: Record<string, unknown>; // From the pack's config entry
+  exec: typeof execZellij;
+  cache: typeof cache;
+  validator: typeof Validator;
+  sessions: typeof SessionTools;
+  panes: typeof PaneTools;
+  tabs: typeof TabTools;
+  layouts: typeof LayoutTools;
+  defineTool: typeof defineTool;
+  annotations: {
+    READ_ONLY: typeof READ_ONLY;
+    UPDATES: typeof UPDATES;
+    DESTRUCTIVE: typeof DESTRUCTIVE;
+    RUNS_COMMANDS: typeof RUNS_COMMANDS;
+  };
+  errors: {
+    ValidationError: typeof ValidationError;
+    ZellijError: typeof ZellijError;
+  };
+  log: (message: string) => void;
+}
+
+/**
+ * Shape of a pack module's default export. Tool names are given without the
+ * namespace; `start_services` in pack `acme` becomes `acme_start_services`.
+ */
+export interface ToolPack {
+  namespace?: string; // Used when the config entry doesn't name one
+  description?: string;
+  tools: (context: ToolPackContext) => ToolDefinition[] | Promise<ToolDefinition[]>;
+}
+
+interface ToolPackEntry {
+  path: string;
+  namespace?: string;
+  options?: Record<string, unknown>;
+}
+
+interface LoadedToolPack {
+  path: string;
+  namespace?: string;
+  description?: string;
+  tools: string[];
+  error?: string;
+}
+
+export class ZellijToolPacks {
+  private static loaded: LoadedToolPack[] = [];
+
+  /**
+   * Where the server config is read from
+   */
+  static configPath(): string {
+    return process.env.ZELLIJ_MCP_CONFIG || join(process.env.HOME || '/tmp', '.config/zellij-mcp/config.json');
+  }
+
+  /**
+   * Load every pack listed under `toolPacks` in the config file and register
+   * its tools. A pack that fails to load is skipped and reported by
+   * zellij_list_tool_packs; the server still starts.
+   */
+  static async load(registry: ToolRegistry): Promise<void> {
+    const path = this.configPath();
+    this.loaded = [];
+
+    let entries: ToolPackEntry[];
+    try {
+      entries = this.readConfig(path);
+    } catch (error) {
+      this.fail({ path, tools: [] }, error);
+      return;
+    }
+
+    const namespaces = new Set<string>();
+    for (const entry of entries) {
+      const pack: LoadedToolPack = { path: entry.path, tools: [] };
+      this.loaded.push(pack);
+
+      try {
+        const module = await import(pathToFileURL(entry.path).href);
+        const definition: ToolPack = module.default ?? module;
+        if (typeof definition?.tools !== 'function') {
+          throw new ValidationError('Module must export a tools(context) function, as its default export or by name');
+        }
+
+        const namespace = entry.namespace ?? definition.namespace;
+        if (typeof namespace !== 'string' || !NAMESPACE_PATTERN.test(namespace) || RESERVED_NAMESPACES.includes(namespace)) {
+          throw new ValidationError(`Namespace must be 1-24 lowercase letters, digits or dashes, start with a letter, and not be ${RESERVED_NAMESPACES.join(', ')}`);
+        }
+        if (namespaces.has(namespace)) {
+          throw new ValidationError(`Namespace ${namespace} is already used by another pack`);
+        }
+        pack.namespace = namespace;
+        if (typeof definition.description === 'string') {
+          pack.description = definition.description;
+        }
+
+        const tools = await definition.tools(this.createContext(namespace, entry.options ?? {}));
+        if (!Array.isArray(tools)) {
+          throw new ValidationError('tools(context) must return an array of tool definitions');
+        }
+
+        const namespaced = tools.map(tool => this.namespaced(namespace, tool));
+        registry.register(namespaced);
+        namespaces.add(namespace);
+        pack.tools = namespaced.map(tool => tool.name);
+        console.error(`[Tool packs] Loaded ${namespace} from ${entry.path} (${pack.tools.length} tools)`);
+      } catch (error) {
+        this.fail(pack, error);
+      }
+    }
+  }
+
+  /**
+   * List loaded packs, their tools and any load errors
+   */
+  static async listPacks(): Promise<ToolResponse> {
+    const lines = this.loaded.map(pack => pack.error
+      ? `✗ ${pack.namespace ?? pack.path}: ${pack.error}`
+      : `✓ ${pack.namespace}${pack.description ? ` - ${pack.description}` : ''}: ${pack.tools.join(', ') || 'no tools'}`);
+
+    return {
+      content: [{
+        type: 'text',
+        text: lines.length > 0 ? `Tool packs (config: ${this.configPath()}):\n${lines.join('\n')}` : `No tool packs configured (config: ${this.configPath()})`
+      }, {
+        type: 'text',
+        text: JSON.stringify({ packs: this.loaded }, null, 2)
+      }]
+    };
+  }
+
+  private static readConfig(path: string): ToolPackEntry[] {
+    if (!existsSync(path)) {
+      return [];
+    }
+
+    const config: unknown = JSON.parse(readFileSync(path, 'utf8'));
+    const packs = typeof config === 'object' && config !== null ? (config as Record<string, unknown>).toolPacks : undefined;
+    if (packs === undefined) {
+      return [];
+    }
+    if (!Array.isArray(packs)) {
+      throw new ValidationError('toolPacks must be an array');
+    }
+
+    // Relative pack paths are relative to the config file
+    return packs.map((item: unknown) => {
+      const entry = typeof item === 'string' ? { path: item } : item;
+      if (typeof entry !== 'object' || entry === null || typeof (entry as ToolPackEntry).path !== 'string') {
+        throw new ValidationError('Each toolPacks entry must be a path or an object with a path');
+      }
+
+      const { path: packPath, namespace, options } = entry as ToolPackEntry;
+      if (namespace !== undefined && typeof namespace !== 'string') {
+        throw new ValidationError(`namespace for ${packPath} must be a string`);
+      }
+      if (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options))) {
+        throw new ValidationError(`options for ${packPath} must be an object`);
+      }
+      return { path: resolve(dirname(path), packPath), namespace, options };
+    });
+  }
+
+  private static namespaced(namespace: string, tool: ToolDefinition): ToolDefinition {
+    if (typeof tool !== 'object' || tool === null || typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new ValidationError('Each tool needs a name of 1-39 letters, digits, dashes or underscores');
+    }
+    if (typeof tool.description !== 'string' || !tool.description) {
+      throw new ValidationError(`${tool.name}: description is required`);
+    }
+    if (typeof tool.inputSchema !== 'object' || tool.inputSchema === null || tool.inputSchema.type !== 'object' ||
+        typeof tool.inputSchema.properties !== 'object' || tool.inputSchema.properties === null) {
+      throw new ValidationError(`${tool.name}: inputSchema must be an object schema with properties`);
+    }
+    if (typeof tool.handler !== 'function') {
+      throw new ValidationError(`${tool.name}: handler must be a function`);
+    }
+
+    return { ...tool, name: `${namespace}_${tool.name}` };
+  }
+
+  private static createContext(namespace: string, options: Record<string, unknown>): ToolPackContext {
+    return {
+      namespace,
+      options,
+      exec: execZellij,
+      cache,
+      validator: Validator,
+      sessions: SessionTools,
+      panes: PaneTools,
+      tabs: TabTools,
+      layouts: LayoutTools,
+      defineTool,
+      annotations: { READ_ONLY, UPDATES, DESTRUCTIVE, RUNS_COMMANDS },
+      errors: { ValidationError, ZellijError },
+      log: message => console.error(`[Tool pack ${namespace}] ${message}`)
+    };
+  }
+
+  private static fail(pack: LoadedToolPack, error: unknown): void {
+    pack.error = error instanceof Error ? error.message : String(error);
+    if (!this.loaded.includes(pack)) {
+      this.loaded.push(pack);
+    }
+    console.error(`[Tool packs] Skipping ${pack.path}: ${pack.error}`);
+  }
+}
+
+export const PACK_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_list_tool_packs',
+    description: 'List loaded tool packs with their namespaced tools, and any packs that failed to load',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => ZellijToolPacks.listPacks()
+  }),
+];
@@ -0,0 +1,292 @@
+// MCP prompts for common workspace workflows: built-ins plus JSON files from
+// the user's prompts directory
+
+import { Prompt, GetPromptResult, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ZellijResources } from './resources.js';
+import { ValidationError, PromptDefinition, PromptArgumentDefinition, PromptMessageDefinition } from './types/zellij.js';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+const MAX_ARGUMENT_LENGTH = 4096;
+
+const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'dev_workspace',
+    title: 'Set up a dev workspace',
+    description: 'Create a session for a repository with an editor tab and a test watcher',
+    arguments: [
+      { name: 'repo', description: 'Path to the repository', required: true },
+      { name: 'session', description: 'Session name (default: dev)', default: 'dev' },
+      { name: 'file', description: 'File to open in the editor (default: README.md)', default: 'README.md' },
+      { name: 'test_command', description: 'Test watcher command (default: npm test -- --watch)', default: 'npm test -- --watch' }
+    ],
+    messages: [{
+      role: 'user',
+      text: [
+        'Set up a Zellij development workspace for the repository at {{repo}}.',
+        '',
+        '1. Create a session named "{{session}}" with zellij_new_session, using cwd "{{repo}}". If it already exists, reuse it.',
+        '2. Create a tab named "code" with zellij_new_tab and open {{file}} in it with zellij_edit_file.',
+        '3. Create a tab named "tests" and start the test watcher there with zellij_new_pane, command "{{test_command}}" and cwd "{{repo}}".',
+        '4. Use zellij_wait_for_pattern on the test pane until the watcher reports its first run, then tell me whether tests pass.',
+        '',
+        'Pass session_name "{{session}}" to every tool. Finish with zellij_list_panes and a short summary of the pane ids you created.'
+      ].join('\n')
+    }]
+  },
+  {
+    name: 'debug_pane',
+    title: 'Debug a failing command',
+    description: 'Read a pane\'s output, work out why its command failed and propose a fix',
+    arguments: [
+      { name: 'session', description: 'Session containing the pane', required: true },
+      { name: 'pane_id', description: 'Pane running the failing command (terminal_N)', required: true },
+      { name: 'command', description: 'Command that failed, if known', default: 'not given; work it out from the screen' }
+    ],
+    messages: [{
+      role: 'user',
+      resource: 'zellij://session/{{session}}/pane/{{pane_id}}/screen'
+    }, {
+      role: 'user',
+      text: [
+        'The command in pane {{pane_id}} of session "{{session}}" is failing (command: {{command}}).',
+        'Its current screen is attached above. If it is cut off, read more with zellij_read_pane (pane_id "{{pane_id}}", tail_lines 200).',
+        '',
+        'Identify the first real error rather than its follow-on noise, explain the cause, and propose a fix.',
+        'When a change is made, re-run the command in that pane with zellij_run_in_pane and confirm the exit code.'
+      ].join('\n')
+    }]
+  },
+  {
+    name: 'summarize_panes',
+    title: 'Summarize every pane',
+    description: 'Describe what each pane in a session is doing',
+    arguments: [
+      { name: 'session', description: 'Session to summarize', required: true }
+    ],
+    messages: [{
+      role: 'user',
+      resource: 'zellij://session/{{session}}/panes'
+    }, {
+      role: 'user',
+      text: [
+        'The panes of session "{{session}}" are attached above.',
+        'For each terminal pane, read the end of its output with zellij_read_pane (pane_id from the list, tail_lines 40).',
+        '',
+        'Then give one line per pane, grouped by tab: what it runs, whether it is idle, busy or showing an error, and anything that needs my attention.'
+      ].join('\n')
+    }]
+  }
+];
+
+export class ZellijPrompts {
+  /**
+   * Where user prompts are loaded from
+   */
+  static promptsDirectory(): string {
+    return process.env.ZELLIJ_MCP_PROMPTS_DIR || join(process.env.HOME || '/tmp', '.config/zellij-mcp/prompts');
+  }
+
+  /**
+   * Every available prompt. The directory is re-read each time, so edited
+   * prompt files are picked up without a restart.
+   */
+  static list(): Prompt[] {
+    return this.definitions().map(definition => {
+      const prompt: Prompt = { name: definition.name };
+      if (definition.title) {
+        prompt.title = definition.title;
+      }
+      if (definition.description) {
+        prompt.description = definition.description;
+      }
+      if (definition.arguments) {
+        prompt.arguments = definition.arguments.map(({ name, description, required }) => ({ name, description, required }));
+      }
+      return prompt;
+    });
+  }
+
+  /**
+   * Fill in a prompt's arguments and read any resources it embeds
+   */
+  static async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const definition = this.definitions().find(prompt => prompt.name === name);
+    if (!definition) {
+      throw new ValidationError(`Unknown prompt: ${name}`);
+    }
+
+    const values = this.resolveArguments(definition, args);
+    const messages: PromptMessage[] = [];
+
+    for (const message of definition.messages) {
+      if (message.resource) {
+        const uri = this.fill(message.resource, values, encodeURIComponent);
+        try {
+          const result = await ZellijResources.read(uri);
+          for (const contents of result.contents) {
+            messages.push({ role: message.role, content: { type: 'resource', resource: contents } });
+          }
+        } catch (error) {
+          // Still useful without the attachment; the text tells the model to fetch it
+          messages.push({
+            role: message.role,
+            content: { type: 'text', text: `(Could not read ${uri}: ${error instanceof Error ? error.message : String(error)})` }
+          });
+        }
+      }
+
+      if (message.text) {
+        messages.push({ role: message.role, content: { type: 'text', text: this.fill(message.text, values) } });
+      }
+    }
+
+    const result: GetPromptResult = { messages };
+    if (definition.description) {
+      result.description = definition.description;
+    }
+    return result;
+  }
+
+  /**
+   * Built-ins, overridden by user prompts with the same name
+   */
+  private static definitions(): PromptDefinition[] {
+    const prompts = new Map(BUILT_IN_PROMPTS.map(prompt => [prompt.name, prompt]));
+    for (const prompt of this.loadUserPrompts()) {
+      prompts.set(prompt.name, prompt);
+    }
+    return [...prompts.values()];
+  }
+
+  private static loadUserPrompts(): PromptDefinition[] {
+    const directory = this.promptsDirectory();
+    if (!existsSync(directory)) {
+      return [];
+    }
+
+    const prompts: PromptDefinition[] = [];
+    for (const file of readdirSync(directory).filter(file => file.endsWith('.json')).sort()) {
+      const path = join(directory, file);
+      try {
+        // A file holds one prompt or an array of them
+        const parsed: unknown = JSON.parse(readFileSync(path, 'utf8'));
+        const values = Array.isArray(parsed) ? parsed : [parsed];
+        prompts.push(...values.map(value => this.parseDefinition(value, path)));
+      } catch (error) {
+        // One bad file shouldn't hide everyone else's prompts
+        console.error(`[Prompts] Skipping ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return prompts;
+  }
+
+  private static parseDefinition(value: unknown, source: string): PromptDefinition {
+    if (!this.isObject(value)) {
+      throw new ValidationError('Prompt must be an object');
+    }
+
+    const { name, title, description, arguments: args, messages } = value;
+    if (typeof name !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(name)) {
+      throw new ValidationError('Prompt name must be 1-64 letters, digits, dashes or underscores');
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      throw new ValidationError(`${name}: title must be a string`);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw new ValidationError(`${name}: description must be a string`);
+    }
+    if (args !== undefined && !Array.isArray(args)) {
+      throw new ValidationError(`${name}: arguments must be an array`);
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ValidationError(`${name}: messages must be a non-empty array`);
+    }
+
+    const argumentDefinitions: PromptArgumentDefinition[] = (args ?? []).map((arg: unknown) => {
+      if (!this.isObject(arg) || typeof arg.name !== 'string' || !/^[A-Za-z0-9_]{1,64}$/.test(arg.name)) {
+        throw new ValidationError(`${name}: each argument needs a name of letters, digits or underscores`);
+      }
+      if (arg.description !== undefined && typeof arg.description !== 'string') {
+        throw new ValidationError(`${name}: description of argument ${arg.name} must be a string`);
+      }
+      if (arg.required !== undefined && typeof arg.required !== 'boolean') {
+        throw new ValidationError(`${name}: required of argument ${arg.name} must be a boolean`);
+      }
+      if (arg.default !== undefined && typeof arg.default !== 'string') {
+        throw new ValidationError(`${name}: default of argument ${arg.name} must be a string`);
+      }
+      return { name: arg.name, description: arg.description, required: arg.required, default: arg.default };
+    });
+
+    const declared = new Set(argumentDefinitions.map(arg => arg.name));
+    const messageDefinitions: PromptMessageDefinition[] = messages.map((message: unknown) => {
+      if (!this.isObject(message) || (message.role !== 'user' && message.role !== 'assistant')) {
+        throw new ValidationError(`${name}: each message needs a role of user or assistant`);
+      }
+      if (message.text !== undefined && typeof message.text !== 'string') {
+        throw new ValidationError(`${name}: message text must be a string`);
+      }
+      if (message.resource !== undefined && (typeof message.resource !== 'string' || !message.resource.startsWith('zellij://'))) {
+        throw new ValidationError(`${name}: message resource must be a zellij:// URI`);
+      }
+      if (message.text === undefined && message.resource === undefined) {
+        throw new ValidationError(`${name}: each message needs text or a resource`);
+      }
+
+      // Catch typos in placeholders when the file is loaded, not when the prompt is used
+      for (const template of [message.text, message.resource]) {
+        for (const match of (template ?? '').matchAll(PLACEHOLDER)) {
+          if (!declared.has(match[1])) {
+            throw new ValidationError(`${name}: placeholder {{${match[1]}}} is not a declared argument`);
+          }
+        }
+      }
+
+      return { role: message.role, text: message.text, resource: message.resource };
+    });
+
+    const definition: PromptDefinition = { name, messages: messageDefinitions, arguments: argumentDefinitions, source };
+    if (title !== undefined) {
+      definition.title = title;
+    }
+    if (description !== undefined) {
+      definition.description = description;
+    }
+    return definition;
+  }
+
+  private static resolveArguments(definition: PromptDefinition, args: Record<string, string>): Map<string, string> {
+    const declared = definition.arguments ?? [];
+    const unknown = Object.keys(args).filter(key => !declared.some(arg => arg.name === key));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown argument${unknown.length === 1 ? '' : 's'} for ${definition.name}: ${unknown.join(', ')}`);
+    }
+
+    const values = new Map<string, string>();
+    for (const arg of declared) {
+      const value = Object.hasOwn(args, arg.name) ? args[arg.name] : undefined;
+      if (value === undefined || value === '') {
+        if (arg.required) {
+          throw new ValidationError(`Missing required argument for ${definition.name}: ${arg.name}`);
+        }
+        values.set(arg.name, arg.default ?? '');
+        continue;
+      }
+      if (typeof value !== 'string' || value.length > MAX_ARGUMENT_LENGTH) {
+        throw new ValidationError(`Argument ${arg.name} must be a string of at most ${MAX_ARGUMENT_LENGTH} characters`);
+      }
+      values.set(arg.name, value);
+    }
+    return values;
+  }
+
+  private static fill(template: string, values: Map<string, string>, encode: (value: string) => string = value => value): string {
+    return template.replace(PLACEHOLDER, (_, name: string) => encode(values.get(name) ?? ''));
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
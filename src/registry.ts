@@ -0,0 +1,106 @@
+// Tool registry: each tool module declares its tools' names, schemas,
+// annotations and handlers together, and the server's tools/list and
+// tools/call are generated from them
+
+import { CallToolResult, ErrorCode, McpError, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ObjectSchema, SchemaArgs, checkSchema, dropNulls } from './utils/schema.js';
+import { ResourcePoller } from './subscriptions.js';
+import { ToolResponse, ValidationError } from './types/zellij.js';
+
+/**
+ * Per-client state a handler can reach; each connected client has its own
+ */
+export interface ToolCallContext {
+  poller: ResourcePoller;
+  clientId: string; // Keys tool state that belongs to one client, such as read cursors
+}
+
+export interface ToolDefinition<S extends ObjectSchema = ObjectSchema> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  annotations?: ToolAnnotations;
+  handler: (args: SchemaArgs<S>, context: ToolCallContext) => Promise<ToolResponse>;
+}
+
+// Annotation presets; every tool acts on the local Zellij server only.
+// Tools that move focus to reach a pane change what the user sees, so they
+// are UPDATES even when they only read.
+export const READ_ONLY: ToolAnnotations = { readOnlyHint: true, openWorldHint: false };
+export const UPDATES: ToolAnnotations = { readOnlyHint: false, destructiveHint: false, openWorldHint: false };
+export const DESTRUCTIVE: ToolAnnotations = { readOnlyHint: false, destructiveHint: true, openWorldHint: false };
+// Runs arbitrary commands, so anything is possible
+export const RUNS_COMMANDS: ToolAnnotations = { readOnlyHint: false, destructiveHint: true, openWorldHint: true };
+
+/**
+ * Declare a tool. The handler's argument types are inferred from the input
+ * schema, so the two can't drift apart.
+ */
+export function defineTool<const S extends ObjectSchema>(definition: ToolDefinition<S>): ToolDefinition {
+  // Widening the handler's parameter type is safe because only
+  // ToolRegistry.call invokes it, after checkSchema has verified the
+  // arguments against this same inputSchema. Keeping S would stop tools
+  // with different schemas from sharing one array.
+  return definition as unknown as ToolDefinition;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  /**
+   * Add tools; nothing is added if any name is already taken
+   */
+  register(definitions: ToolDefinition[]): void {
+    const names = new Set<string>();
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name) || names.has(definition.name)) {
+        throw new Error(`Tool ${definition.name} is registered twice`);
+      }
+      names.add(definition.name);
+    }
+
+    for (const definition of definitions) {
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Tool listing for tools/list, in registration order
+   */
+  list(): Tool[] {
+    return [...this.tools.values()].map(({ name, description, inputSchema, annotations }) => {
+      const tool: Tool = { name, description, inputSchema: inputSchema as Tool['inputSchema'] };
+      if (annotations) {
+        tool.annotations = annotations;
+      }
+      return tool;
+    });
+  }
+
+  /**
+   * Check the arguments against the tool's schema, then run its handler.
+   * Unknown tools are MethodNotFound; bad arguments are a ValidationError.
+   */
+  async call(name: string, args: Record<string, unknown> = {}, context: ToolCallContext): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const errors = checkSchema(args, tool.inputSchema, '');
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid arguments for ${name}: ${errors.join('; ')}`);
+    }
+
+    const response = await tool.handler(dropNulls(args) as SchemaArgs<ObjectSchema>, context);
+    return { ...response };
+  }
+}
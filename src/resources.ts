@@ -0,0 +1,168 @@
+// MCP resources exposing live Zellij state under the zellij:// URI scheme
+
+import { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { SessionTools } from './tools/sessions.js';
+import { LayoutTools } from './tools/layouts.js';
+import { PaneTools } from './tools/panes.js';
+import { Validator } from './utils/validator.js';
+import { execZellij } from './utils/command.js';
+import { ValidationError, ZellijSession } from './types/zellij.js';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const SESSIONS_URI = 'zellij://sessions';
+const LAYOUTS_URI = 'zellij://layouts';
+
+const TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'zellij://session/{name}/layout',
+    name: 'Session layout',
+    description: 'Live layout of a running session as KDL',
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: 'zellij://session/{name}/panes',
+    name: 'Session panes',
+    description: 'Panes of a running session with their terminal_N / plugin_N ids',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'zellij://session/{name}/pane/{id}/screen',
+    name: 'Pane screen',
+    description: 'Current screen contents of a pane, ANSI stripped',
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: 'zellij://layouts/{name}',
+    name: 'Saved layout',
+    description: 'Layout file from the Zellij layouts directory',
+    mimeType: 'text/plain'
+  }
+];
+
+export class ZellijResources {
+  /**
+   * Parameterised resources clients can fill in themselves
+   */
+  static templates(): ResourceTemplate[] {
+    return TEMPLATES;
+  }
+
+  /**
+   * Concrete resources: the session and layout indexes, plus one entry per
+   * running session and saved layout
+   */
+  static async list(): Promise<Resource[]> {
+    const resources: Resource[] = [
+      { uri: SESSIONS_URI, name: 'Sessions', description: 'All Zellij sessions with their status', mimeType: 'application/json' },
+      { uri: LAYOUTS_URI, name: 'Layouts', description: 'Names of saved layouts', mimeType: 'application/json' }
+    ];
+
+    let sessions: ZellijSession[] = [];
+    try {
+      sessions = await SessionTools.getSessions();
+    } catch {
+      // No Zellij server running; only the indexes are listed
+    }
+
+    for (const session of sessions.filter(session => !session.exited)) {
+      const base = `zellij://session/${encodeURIComponent(session.name)}`;
+      resources.push(
+        { uri: `${base}/layout`, name: `${session.name} layout`, mimeType: 'text/plain' },
+        { uri: `${base}/panes`, name: `${session.name} panes`, mimeType: 'application/json' }
+      );
+    }
+
+    for (const layout of this.layoutNames()) {
+      resources.push({ uri: `${LAYOUTS_URI}/${encodeURIComponent(layout)}`, name: `Layout ${layout}`, mimeType: 'text/plain' });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Resolve a zellij:// URI to its current contents
+   */
+  static async read(uri: string): Promise<ReadResourceResult> {
+    if (uri === SESSIONS_URI) {
+      return this.json(uri, { sessions: await SessionTools.getSessions() });
+    }
+
+    if (uri === LAYOUTS_URI) {
+      return this.json(uri, { directory: LayoutTools.layoutsDirectory(), layouts: this.layoutNames() });
+    }
+
+    let match = uri.match(/^zellij:\/\/session\/([^/]+)\/(layout|panes)$/);
+    if (match) {
+      const session = this.sessionName(match[1]);
+      if (match[2] === 'panes') {
+        return this.json(uri, { session, panes: await PaneTools.getPanes(session) });
+      }
+      const result = await execZellij({ command: 'action', session, args: ['dump-layout'] });
+      return this.text(uri, result.stdout);
+    }
+
+    match = uri.match(/^zellij:\/\/session\/([^/]+)\/pane\/([^/]+)\/screen$/);
+    if (match) {
+      const session = this.sessionName(match[1]);
+      const idValidation = Validator.validatePaneId(this.decode(match[2]));
+      if (!idValidation.valid) {
+        throw new ValidationError(idValidation.errors.join(', '));
+      }
+      const screen = await PaneTools.captureScreen(session, idValidation.sanitized, { full: false, restoreFocus: true });
+      return this.text(uri, screen);
+    }
+
+    match = uri.match(/^zellij:\/\/layouts\/([^/]+)$/);
+    if (match) {
+      const name = this.decode(match[1]);
+      const nameValidation = Validator.validateString(name, 'layout name', 64);
+      if (!nameValidation.valid || name.includes('/') || name.includes('..')) {
+        throw new ValidationError(`Invalid layout name: ${name}`);
+      }
+      const path = join(LayoutTools.layoutsDirectory(), `${name}.kdl`);
+      if (!existsSync(path)) {
+        throw new ValidationError(`Layout not found: ${name}`);
+      }
+      return this.text(uri, readFileSync(path, 'utf8'));
+    }
+
+    throw new ValidationError(`Unknown resource: ${uri}`);
+  }
+
+  private static layoutNames(): string[] {
+    const directory = LayoutTools.layoutsDirectory();
+    if (!existsSync(directory)) {
+      return [];
+    }
+    return readdirSync(directory)
+      .filter(file => file.endsWith('.kdl'))
+      .map(file => file.slice(0, -'.kdl'.length))
+      .sort();
+  }
+
+  private static sessionName(encoded: string): string {
+    const name = this.decode(encoded);
+    const nameValidation = Validator.validateSessionName(name);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+    return nameValidation.sanitized!;
+  }
+
+  private static decode(component: string): string {
+    try {
+      return decodeURIComponent(component);
+    } catch {
+      throw new ValidationError(`Invalid URI component: ${component}`);
+    }
+  }
+
+  private static text(uri: string, text: string): ReadResourceResult {
+    return { contents: [{ uri, mimeType: 'text/plain', text }] };
+  }
+
+  private static json(uri: string, value: unknown): ReadResourceResult {
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+  }
+}
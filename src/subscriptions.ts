@@ -0,0 +1,274 @@
+// Resource subscriptions: a poller that diffs session, tab and pane state
+// and reports which zellij:// resources changed
+
+import { SessionTools } from './tools/sessions.js';
+import { PaneTools } from './tools/panes.js';
+import { LayoutTools } from './tools/layouts.js';
+import { cache } from './utils/cache.js';
+import { ValidationError } from './types/zellij.js';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+
+// Polling slows down to this while nobody is subscribed
+const MAX_IDLE_INTERVAL_MS = 60000;
+
+interface WorkspaceSnapshot {
+  sessions: Map<string, boolean>; // Name -> exited
+  tabs: Map<string, string>; // Session -> tab names, in order
+  panes: Map<string, Map<string, PaneState>>; // Session -> tab:index -> pane
+  layouts: Map<string, number>; // Saved layout name -> mtime
+}
+
+interface PaneState {
+  fingerprint: string;
+  id?: string; // Only for panes a client has reported, usually just the focused one
+}
+
+export interface ResourceNotifier {
+  updated: (uri: string) => Promise<void>;
+  listChanged: () => Promise<void>;
+}
+
+export class ResourcePoller {
+  private subscriptions = new Set<string>();
+  private snapshot?: WorkspaceSnapshot;
+  private timer?: NodeJS.Timeout;
+  private idleDelayMs: number;
+  private polling = false;
+  private running = false;
+
+  constructor(private readonly notifier: ResourceNotifier, private intervalMs: number = 2000) {
+    this.validateInterval(intervalMs);
+    this.idleDelayMs = intervalMs;
+  }
+
+  start(): void {
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  subscribe(uri: string): void {
+    if (typeof uri !== 'string' || !uri.startsWith('zellij://')) {
+      throw new ValidationError(`Cannot subscribe to ${uri}: only zellij:// resources are supported`);
+    }
+    this.subscriptions.add(uri);
+
+    // Back to full speed as soon as someone is listening
+    this.idleDelayMs = this.intervalMs;
+    if (this.running) {
+      this.schedule(this.intervalMs);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  setInterval(intervalMs: number): void {
+    this.validateInterval(intervalMs);
+    this.intervalMs = intervalMs;
+    this.idleDelayMs = intervalMs;
+    if (this.running) {
+      this.schedule(intervalMs);
+    }
+  }
+
+  status(): { intervalMs: number; idleDelayMs: number; subscriptions: string[] } {
+    return { intervalMs: this.intervalMs, idleDelayMs: this.idleDelayMs, subscriptions: [...this.subscriptions].sort() };
+  }
+
+  private validateInterval(intervalMs: number): void {
+    if (typeof intervalMs !== 'number' || !Number.isFinite(intervalMs) || intervalMs < 250 || intervalMs > 60000) {
+      throw new ValidationError('Poll interval must be between 250ms and 60000ms');
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+    // Never keep the process alive just to poll
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.poll();
+    } catch (error) {
+      console.error('[Resource poller]', error instanceof Error ? error.message : String(error));
+    } finally {
+      this.polling = false;
+    }
+
+    if (!this.running) {
+      return;
+    }
+
+    if (this.subscriptions.size > 0) {
+      this.schedule(this.intervalMs);
+    } else {
+      // Only resources/list_changed is useful while idle, so double the delay up to the cap
+      this.schedule(this.idleDelayMs);
+      this.idleDelayMs = Math.min(this.idleDelayMs * 2, MAX_IDLE_INTERVAL_MS);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const next = await this.takeSnapshot();
+    const previous = this.snapshot;
+    this.snapshot = next;
+
+    // The first snapshot is the baseline
+    if (!previous) {
+      return;
+    }
+
+    const changed = new Set<string>();
+    let listChanged = false;
+
+    const sessionNames = new Set([...previous.sessions.keys(), ...next.sessions.keys()]);
+    for (const name of sessionNames) {
+      if (previous.sessions.get(name) !== next.sessions.get(name)) {
+        changed.add('zellij://sessions');
+        this.sessionUris(name).forEach(uri => changed.add(uri));
+        listChanged = true;
+      }
+    }
+
+    for (const name of new Set([...previous.tabs.keys(), ...next.tabs.keys()])) {
+      // Sessions first seen this round only have a baseline
+      if (!previous.tabs.has(name) || !next.tabs.has(name)) {
+        continue;
+      }
+      if (previous.tabs.get(name) !== next.tabs.get(name)) {
+        changed.add(`${this.sessionBase(name)}/layout`);
+        changed.add(`${this.sessionBase(name)}/panes`);
+      }
+    }
+
+    for (const [name, panes] of next.panes) {
+      const before = previous.panes.get(name);
+      if (!before) {
+        continue;
+      }
+      for (const position of new Set([...before.keys(), ...panes.keys()])) {
+        // A pane whose command exited stops reporting it, or closes
+        const was = before.get(position);
+        const now = panes.get(position);
+        if (was?.fingerprint !== now?.fingerprint) {
+          changed.add(`${this.sessionBase(name)}/layout`);
+          changed.add(`${this.sessionBase(name)}/panes`);
+          const id = now?.id ?? was?.id;
+          if (id) {
+            changed.add(`${this.sessionBase(name)}/pane/${encodeURIComponent(id)}/screen`);
+          }
+        }
+      }
+    }
+
+    for (const name of new Set([...previous.layouts.keys(), ...next.layouts.keys()])) {
+      if (previous.layouts.get(name) !== next.layouts.get(name)) {
+        changed.add(`zellij://layouts/${encodeURIComponent(name)}`);
+        if (!previous.layouts.has(name) || !next.layouts.has(name)) {
+          changed.add('zellij://layouts');
+          listChanged = true;
+        }
+      }
+    }
+
+    for (const uri of changed) {
+      if (this.subscriptions.has(uri)) {
+        await this.notifier.updated(uri);
+      }
+    }
+
+    if (listChanged) {
+      await this.notifier.listChanged();
+    }
+  }
+
+  private async takeSnapshot(): Promise<WorkspaceSnapshot> {
+    // Skip the list cache so a session that just exited shows up this round
+    cache.delete('sessions_list');
+    const sessions = await SessionTools.getSessions();
+
+    const snapshot: WorkspaceSnapshot = {
+      sessions: new Map(sessions.map(session => [session.name, session.exited === true])),
+      tabs: new Map(),
+      panes: new Map(),
+      layouts: this.layoutMtimes()
+    };
+
+    // Tabs and panes are only fetched for running sessions someone subscribed to
+    for (const session of sessions) {
+      if (session.exited || !this.hasSessionSubscription(session.name)) {
+        continue;
+      }
+
+      try {
+        const panes = await PaneTools.getPanes(session.name);
+        const tabs = [...new Set(panes.map(pane => pane.tab ?? ''))];
+        snapshot.tabs.set(session.name, JSON.stringify(tabs));
+        // Keyed by position, not id: which pane has a known id follows focus,
+        // and moving focus alone changes none of the resources
+        const counts = new Map<number, number>();
+        snapshot.panes.set(session.name, new Map(panes.map(pane => {
+          const tab = pane.tabPosition ?? 0;
+          const index = counts.get(tab) ?? 0;
+          counts.set(tab, index + 1);
+          const state: PaneState = { fingerprint: JSON.stringify([pane.title, pane.command, pane.args, pane.tab, pane.floating]) };
+          if (pane.id) {
+            state.id = pane.id;
+          }
+          return [`${tab}:${index}`, state];
+        })));
+      } catch {
+        // Session went away mid-poll; the session diff reports it next round
+      }
+    }
+
+    return snapshot;
+  }
+
+  private layoutMtimes(): Map<string, number> {
+    const directory = LayoutTools.layoutsDirectory();
+    const layouts = new Map<string, number>();
+    if (!existsSync(directory)) {
+      return layouts;
+    }
+
+    for (const file of readdirSync(directory)) {
+      if (file.endsWith('.kdl')) {
+        try {
+          layouts.set(file.slice(0, -'.kdl'.length), statSync(join(directory, file)).mtimeMs);
+        } catch {
+          // Deleted between listing and stat
+        }
+      }
+    }
+    return layouts;
+  }
+
+  private hasSessionSubscription(name: string): boolean {
+    const prefix = `${this.sessionBase(name)}/`;
+    return [...this.subscriptions].some(uri => uri.startsWith(prefix));
+  }
+
+  private sessionUris(name: string): string[] {
+    const prefix = `${this.sessionBase(name)}/`;
+    return [...this.subscriptions].filter(uri => uri.startsWith(prefix));
+  }
+
+  private sessionBase(name: string): string {
+    return `zellij://session/${encodeURIComponent(name)}`;
+  }
+}
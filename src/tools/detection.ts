@@ -1,23 +1,43 @@
-import { execAsync } from '../utils/command.js';
+import { execFileAsync } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
 import { cache } from '../utils/cache.js';
-import { ToolResponse, ValidationError } from '../types/zellij.js';
-import { writeFileSync, readFileSync, existsSync, unlinkSync, watchFile, unwatchFile } from 'fs';
-import { spawn, ChildProcess } from 'child_process';
-import { createReadStream, createWriteStream } from 'fs';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES, DESTRUCTIVE, RUNS_COMMANDS } from '../registry.js';
+import { ToolResponse, ValidationError, ZellijError, OutputPattern, PatternMatch, WaitCondition, WaitSignal, WaitResult, ProcessPollResult, ProcessTreeNode } from '../types/zellij.js';
+import { PaneTools } from './panes.js';
+import { JobTools } from './jobs.js';
+import { screenLines, findAfterAnchor } from '../utils/screen.js';
+import { LineBuffer, LineBatch, FileTail } from '../utils/tail.js';
+import { hasProcfs, readProcess, readAllProcesses, buildProcessTree, flattenProcessTree, CLOCK_TICKS } from '../utils/procfs.js';
+import { writeFileSync, existsSync, unlinkSync, watchFile, unwatchFile, statSync, openSync, readSync, closeSync, constants } from 'fs';
+import { createReadStream } from 'fs';
 import { pipeline } from 'stream/promises';
+import { createConnection } from 'net';
+import { StringDecoder } from 'string_decoder';
+
+// One condition of a multi-signal wait: `check` resolves with what was seen once it holds
+interface WaitProbe {
+  signal: WaitSignal;
+  check: () => Promise<{ detail: string; context?: string[] } | undefined>;
+  close: () => void;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+// How long a file match waits for after-context lines that haven't been written yet
+const AFTER_CONTEXT_WAIT_MS = 1000;
 
 export class DetectionTools {
   private static watchers = new Map<string, any>();
-  private static processes = new Map<string, ChildProcess>();
+  // Jobs started by pipeWithTimeout; jobs users start themselves are theirs to cancel
+  private static jobIds = new Set<string>();
 
   /**
-   * Watch a pipe for specific patterns or EOF with timeout
+   * Watch a pipe until a line matches one of the regex patterns, or EOF
    */
   static async watchPipe(
     pipePath: string, 
     patterns?: string[], 
-    timeoutMs: number = 30000
+    timeoutMs: number = 30000,
+    options: { flags?: string; contextLines?: number } = {}
   ): Promise<ToolResponse> {
     // Validate pipe path
     if (!pipePath || pipePath.includes('..') || !pipePath.match(/^[/\w\-\.]+$/)) {
@@ -29,22 +49,30 @@ export class DetectionTools {
       throw new ValidationError('Timeout must be between 100ms and 300000ms (5 minutes)');
     }
 
-    // Validate patterns
-    const validatedPatterns: string[] = [];
-    if (patterns) {
-      for (const pattern of patterns) {
-        const patternValidation = Validator.validateString(pattern, 'pattern', 256);
-        if (!patternValidation.valid) {
-          throw new ValidationError(`Invalid pattern: ${patternValidation.errors.join(', ')}`);
-        }
-        validatedPatterns.push(patternValidation.sanitized!);
-      }
+    const contextLines = this.validateContextLines(options.contextLines);
+    const compiled = patterns && patterns.length > 0 ? this.compilePatterns(patterns, false, options.flags) : [];
+
+    // Check if pipe exists
+    if (!existsSync(pipePath)) {
+      throw new ValidationError(`Pipe does not exist: ${pipePath}`);
     }
 
+    const startedAt = Date.now();
+
     return new Promise((resolve, reject) => {
+      const stream = createReadStream(pipePath, { encoding: 'utf8' });
+      const lines = new LineBuffer(contextLines);
+      let settled = false;
+
+      const finish = (response: ToolResponse) => {
+        settled = true;
+        clearTimeout(timeout);
+        stream.destroy();
+        resolve(response);
+      };
+
       const timeout = setTimeout(() => {
-        cleanup();
-        resolve({
+        finish({
           content: [{
             type: 'text',
             text: `Pipe watch timeout after ${timeoutMs}ms. No matching patterns found.`
@@ -52,72 +80,511 @@ export class DetectionTools {
         });
       }, timeoutMs);
 
-      let buffer = '';
-      let found = false;
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        if (this.watchers.has(pipePath)) {
-          unwatchFile(pipePath);
-          this.watchers.delete(pipePath);
+      const scan = (batch: LineBatch) => {
+        const match = compiled.length > 0 ? this.matchBatch(batch, compiled, contextLines, startedAt) : undefined;
+        if (match) {
+          finish(this.watchResponse(match, `pipe ${pipePath}`));
         }
       };
 
-      try {
-        // Check if pipe exists
-        if (!existsSync(pipePath)) {
-          cleanup();
-          reject(new ValidationError(`Pipe does not exist: ${pipePath}`));
-          return;
+      stream.on('data', (chunk: string | Buffer) => {
+        if (!settled) {
+          scan(lines.push(chunk.toString()));
         }
+      });
 
-        const stream = createReadStream(pipePath);
-        
-        stream.on('data', (chunk: string | Buffer) => {
-          buffer += chunk.toString();
-          
-          // Check for patterns
-          if (validatedPatterns.length > 0) {
-            for (const pattern of validatedPatterns) {
-              if (buffer.includes(pattern)) {
-                found = true;
-                cleanup();
-                resolve({
-                  content: [{
-                    type: 'text',
-                    text: `Pattern found: "${pattern}" in pipe ${pipePath}`
-                  }]
-                });
-                return;
-              }
-            }
-          }
-        });
-
-        stream.on('end', () => {
-          cleanup();
-          resolve({
+      stream.on('end', () => {
+        if (settled) {
+          return;
+        }
+        scan(lines.flush());
+        if (!settled) {
+          finish({
             content: [{
               type: 'text',
-              text: found 
-                ? `EOF reached on pipe ${pipePath} with pattern match`
-                : `EOF reached on pipe ${pipePath}. No patterns specified or found.`
+              text: compiled.length > 0
+                ? `EOF reached on pipe ${pipePath}. No patterns matched.`
+                : `EOF reached on pipe ${pipePath}.`
             }]
           });
-        });
+        }
+      });
 
-        stream.on('error', (error) => {
-          cleanup();
+      stream.on('error', (error) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
           reject(new ValidationError(`Error reading pipe: ${error.message}`));
-        });
+        }
+      });
+    });
+  }
+
+  /**
+   * Wait until a pane's output matches one of several labelled regexes
+   */
+  static async waitForPattern(
+    patterns: Array<string | OutputPattern>,
+    options: {
+      sessionName?: string;
+      paneId?: string;
+      timeoutMs?: number;
+      scope?: 'screen' | 'scrollback';
+      onlyNew?: boolean;
+      contextLines?: number;
+      ignoreCase?: boolean;
+    } = {}
+  ): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const contextLines = options.contextLines ?? 3;
+
+    if (timeoutMs < 100 || timeoutMs > 3600000) {
+      throw new ValidationError('Timeout must be between 100ms and 3600000ms (1 hour)');
+    }
+
+    if (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > 50) {
+      throw new ValidationError('Context lines must be between 0 and 50');
+    }
+
+    const compiled = this.compilePatterns(patterns, options.ignoreCase);
+    const full = (options.scope ?? 'scrollback') === 'scrollback';
+    const startedAt = Date.now();
 
+    // With onlyNew, output already on screen when the wait starts is ignored
+    let anchor: string[] = [];
+    if (options.onlyNew) {
+      const initial = screenLines(await PaneTools.captureScreen(session, options.paneId, { full, restoreFocus: true }));
+      // The last line may still change (prompt, progress bar), so it isn't part of the anchor
+      anchor = initial.slice(0, -1).slice(-5);
+    }
+
+    while (true) {
+      const lines = screenLines(await PaneTools.captureScreen(session, options.paneId, { full, restoreFocus: true }));
+      const from = findAfterAnchor(lines, anchor) ?? 0;
+      const match = this.matchLines(lines, from, compiled, contextLines, startedAt);
+
+      if (match.matched) {
+        return this.patternResponse(match, options.paneId);
+      }
+
+      if (Date.now() - startedAt >= timeoutMs) {
+        return this.patternResponse({ matched: false, elapsedMs: Date.now() - startedAt }, options.paneId);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  /**
+   * Validate and compile watch patterns; plain strings count as success patterns
+   */
+  static compilePatterns(patterns: Array<string | OutputPattern>, ignoreCase?: boolean, flags: string = ''): Array<OutputPattern & { regex: RegExp }> {
+    if (!Array.isArray(patterns) || patterns.length === 0) {
+      throw new ValidationError('At least one pattern is required');
+    }
+
+    // Stateful flags (g, y) would make repeated test() calls skip matches
+    if (typeof flags !== 'string' || !/^[imsu]*$/.test(flags)) {
+      throw new ValidationError('Regex flags may only contain i, m, s and u');
+    }
+    const regexFlags = ignoreCase && !flags.includes('i') ? `${flags}i` : flags;
+
+    return patterns.map(entry => {
+      const spec: OutputPattern = typeof entry === 'string' ? { pattern: entry } : entry;
+
+      const patternValidation = Validator.validateString(spec?.pattern, 'pattern', 256);
+      if (!patternValidation.valid) {
+        throw new ValidationError(`Invalid pattern: ${patternValidation.errors.join(', ')}`);
+      }
+
+      if (spec.outcome !== undefined && spec.outcome !== 'success' && spec.outcome !== 'failure') {
+        throw new ValidationError(`Invalid outcome for pattern ${spec.pattern}: must be success or failure`);
+      }
+
+      try {
+        return { ...spec, outcome: spec.outcome ?? 'success', regex: new RegExp(spec.pattern, regexFlags) };
       } catch (error) {
-        cleanup();
-        reject(new ValidationError(`Failed to watch pipe: ${error instanceof Error ? error.message : String(error)}`));
+        throw new ValidationError(`Invalid regular expression ${spec.pattern}: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
   }
 
+  /**
+   * First line at or after `from` matching any pattern, with surrounding context
+   */
+  static matchLines(
+    lines: string[],
+    from: number,
+    patterns: Array<OutputPattern & { regex: RegExp }>,
+    contextLines: number,
+    startedAt: number
+  ): PatternMatch {
+    for (let index = from; index < lines.length; index++) {
+      for (const hit of patterns) {
+        const result = hit.regex.exec(lines[index]);
+        if (!result) {
+          continue;
+        }
+
+        const match: PatternMatch = {
+          matched: true,
+          outcome: hit.outcome,
+          pattern: hit.pattern,
+          line: lines[index],
+          lineNumber: index + 1,
+          context: lines.slice(Math.max(0, index - contextLines), index + contextLines + 1),
+          elapsedMs: Date.now() - startedAt
+        };
+        if (hit.label) {
+          match.label = hit.label;
+        }
+        if (result.length > 1) {
+          match.groups = result.slice(1);
+        }
+        if (result.groups) {
+          match.namedGroups = { ...result.groups };
+        }
+        return match;
+      }
+    }
+
+    return { matched: false, elapsedMs: Date.now() - startedAt };
+  }
+
+  private static patternResponse(match: PatternMatch, paneId?: string): ToolResponse {
+    const where = paneId ? `pane ${paneId}` : 'focused pane';
+    const text = match.matched
+      ? `${match.outcome === 'failure' ? 'Failure' : 'Success'} pattern matched${match.label ? ` (${match.label})` : ''} in ${where} after ${match.elapsedMs}ms\nLine ${match.lineNumber}: ${match.line}\n\n${match.context!.join('\n')}`
+      : `No pattern matched in ${where} after ${match.elapsedMs}ms`;
+
+    return {
+      content: [{
+        type: 'text',
+        text
+      }, {
+        type: 'text',
+        text: JSON.stringify(match, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Wait until any (or all) of several conditions hold: a file exists or
+   * matches a regex, a FIFO emits a matching line, a process exits, a pane
+   * prints a matching line, or a local TCP port accepts connections
+   */
+  static async waitFor(
+    conditions: WaitCondition[],
+    options: {
+      mode?: 'any' | 'all';
+      timeoutMs?: number;
+      intervalMs?: number;
+      sessionName?: string;
+    } = {}
+  ): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+    const mode = options.mode ?? 'any';
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const intervalMs = options.intervalMs ?? 500;
+
+    if (mode !== 'any' && mode !== 'all') {
+      throw new ValidationError('Mode must be "any" or "all"');
+    }
+
+    if (timeoutMs < 100 || timeoutMs > 3600000) {
+      throw new ValidationError('Timeout must be between 100ms and 3600000ms (1 hour)');
+    }
+
+    if (intervalMs < 100 || intervalMs > 10000) {
+      throw new ValidationError('Interval must be between 100ms and 10000ms');
+    }
+
+    if (!Array.isArray(conditions) || conditions.length === 0) {
+      throw new ValidationError('At least one condition is required');
+    }
+    if (conditions.length > 20) {
+      throw new ValidationError('Too many conditions (max 20)');
+    }
+
+    const probes = conditions.map((condition, index) => this.createProbe(condition, index, session));
+    const startedAt = Date.now();
+
+    try {
+      while (true) {
+        for (const probe of probes) {
+          if (probe.signal.fired) {
+            continue;
+          }
+
+          const hit = await probe.check();
+          if (hit) {
+            probe.signal.fired = true;
+            probe.signal.firedAtMs = Date.now() - startedAt;
+            probe.signal.detail = hit.detail;
+            if (hit.context) {
+              probe.signal.context = hit.context;
+            }
+          }
+        }
+
+        const signals = probes.map(probe => probe.signal);
+        const fired = signals.filter(signal => signal.fired);
+        const satisfied = mode === 'any' ? fired.length > 0 : fired.length === signals.length;
+
+        if (satisfied || Date.now() - startedAt >= timeoutMs) {
+          const result: WaitResult = { mode, satisfied, signals, elapsedMs: Date.now() - startedAt };
+          if (fired.length > 0) {
+            result.first = fired.reduce((first, signal) => signal.firedAtMs! < first.firedAtMs! ? signal : first);
+          }
+          return this.waitResponse(result);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+      }
+    } finally {
+      probes.forEach(probe => probe.close());
+    }
+  }
+
+  private static createProbe(condition: WaitCondition, index: number, session?: string): WaitProbe {
+    if (!condition || typeof condition !== 'object') {
+      throw new ValidationError(`Condition ${index + 1} must be an object`);
+    }
+
+    const signal: WaitSignal = { index, type: condition.type, fired: false };
+    if (condition.label !== undefined) {
+      const labelValidation = Validator.validateString(condition.label, 'label', 64);
+      if (!labelValidation.valid) {
+        throw new ValidationError(`Invalid label for condition ${index + 1}: ${labelValidation.errors.join(', ')}`);
+      }
+      signal.label = labelValidation.sanitized;
+    }
+
+    let regex: (OutputPattern & { regex: RegExp }) | undefined;
+    const regexFor = (required: boolean) => {
+      if (condition.pattern === undefined && !required) {
+        return undefined;
+      }
+      return this.compilePatterns([{ pattern: condition.pattern! }])[0];
+    };
+
+    switch (condition.type) {
+      case 'file': {
+        const path = this.validateWatchPath(condition.path, index);
+        regex = regexFor(false);
+        const tail = new FileTail(path);
+        const lines = new LineBuffer(3);
+
+        return {
+          signal,
+          close: () => {},
+          check: async () => {
+            if (!existsSync(path)) {
+              return undefined;
+            }
+            if (!regex) {
+              return { detail: `File exists: ${path}` };
+            }
+
+            try {
+              for (const text of tail.read()) {
+                const match = this.matchBatch(lines.push(text), [regex], 3, Date.now());
+                if (match) {
+                  return { detail: `Line ${match.lineNumber} of ${path} matched /${regex.pattern}/: ${match.line}`, context: match.context };
+                }
+              }
+            } catch {
+              // Not readable yet; keep waiting
+            }
+            return undefined;
+          }
+        };
+      }
+
+      case 'pipe': {
+        const path = this.validateWatchPath(condition.path, index);
+        regex = regexFor(true);
+        if (existsSync(path) && !statSync(path).isFIFO()) {
+          throw new ValidationError(`Condition ${index + 1}: not a named pipe: ${path}`);
+        }
+
+        // Non-blocking so opening and reading never stall while no writer is attached
+        let fd: number | undefined;
+        const lines = new LineBuffer(3);
+        const decoder = new StringDecoder('utf8');
+        const chunk = Buffer.alloc(65536);
+
+        return {
+          signal,
+          close: () => {
+            if (fd !== undefined) {
+              closeSync(fd);
+              fd = undefined;
+            }
+          },
+          check: async () => {
+            if (fd === undefined) {
+              if (!existsSync(path)) {
+                return undefined;
+              }
+              fd = openSync(path, constants.O_RDONLY | constants.O_NONBLOCK);
+            }
+
+            while (true) {
+              let bytesRead: number;
+              try {
+                bytesRead = readSync(fd, chunk, 0, chunk.length, null);
+              } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'EAGAIN') {
+                  break;
+                }
+                throw new ValidationError(`Error reading pipe ${path}: ${error instanceof Error ? error.message : String(error)}`);
+              }
+              if (bytesRead === 0) {
+                break;
+              }
+              const match = this.matchBatch(lines.push(decoder.write(chunk.subarray(0, bytesRead))), [regex!], 3, Date.now());
+              if (match) {
+                return { detail: `Pipe ${path} matched /${regex!.pattern}/: ${match.line}`, context: match.context };
+              }
+            }
+            return undefined;
+          }
+        };
+      }
+
+      case 'process_exit': {
+        const pid = condition.pid;
+        if (typeof pid !== 'number' || !Number.isInteger(pid) || pid <= 0 || pid > 4194304) {
+          throw new ValidationError(`Condition ${index + 1}: invalid PID, must be a positive integer`);
+        }
+
+        let name: string | undefined;
+        const describe = () => `Process ${pid}${name ? ` (${name})` : ''}`;
+
+        return {
+          signal,
+          close: () => {},
+          check: async () => {
+            try {
+              process.kill(pid, 0);
+            } catch (error) {
+              // EPERM means it exists but belongs to someone else
+              if ((error as NodeJS.ErrnoException).code === 'ESRCH') {
+                return { detail: `${describe()} exited` };
+              }
+            }
+
+            // Without procfs the signal check above is all we have
+            const info = readProcess(pid);
+            name ??= info?.comm;
+            if (info?.state === 'Z' || info?.state === 'X') {
+              const code = info.exitCode !== undefined && info.exitCode !== null ? ` with exit code ${info.exitCode}` : '';
+              return { detail: `${describe()} exited${code} (not yet reaped by its parent)` };
+            }
+
+            return undefined;
+          }
+        };
+      }
+
+      case 'pane': {
+        regex = regexFor(true);
+        let paneId: string | undefined;
+        if (condition.paneId !== undefined) {
+          const idValidation = Validator.validatePaneId(condition.paneId);
+          if (!idValidation.valid) {
+            throw new ValidationError(`Condition ${index + 1}: ${idValidation.errors.join(', ')}`);
+          }
+          paneId = idValidation.sanitized;
+        }
+
+        const where = paneId ? `pane ${paneId}` : 'focused pane';
+        let anchor: string[] | undefined = condition.onlyNew ? undefined : [];
+
+        return {
+          signal,
+          close: () => {},
+          check: async () => {
+            const lines = screenLines(await PaneTools.captureScreen(session, paneId, { full: true, restoreFocus: true }));
+
+            // The first capture of an only-new wait just marks where output starts
+            if (anchor === undefined) {
+              anchor = lines.slice(0, -1).slice(-5);
+              return undefined;
+            }
+
+            const match = this.matchLines(lines, findAfterAnchor(lines, anchor) ?? 0, [regex!], 3, Date.now());
+            return match.matched
+              ? { detail: `Line ${match.lineNumber} of ${where} matched /${regex!.pattern}/: ${match.line}`, context: match.context }
+              : undefined;
+          }
+        };
+      }
+
+      case 'port': {
+        const port = condition.port;
+        if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+          throw new ValidationError(`Condition ${index + 1}: port must be between 1 and 65535`);
+        }
+        const host = condition.host ?? '127.0.0.1';
+        if (!LOOPBACK_HOSTS.includes(host)) {
+          throw new ValidationError(`Condition ${index + 1}: host must be a loopback address (${LOOPBACK_HOSTS.join(', ')})`);
+        }
+
+        return {
+          signal,
+          close: () => {},
+          check: () => new Promise(resolve => {
+            const socket = createConnection({ host, port });
+            const done = (result: { detail: string } | undefined) => {
+              socket.destroy();
+              resolve(result);
+            };
+            socket.setTimeout(1000, () => done(undefined));
+            socket.once('connect', () => done({ detail: `Port ${host}:${port} is accepting connections` }));
+            socket.once('error', () => done(undefined));
+          })
+        };
+      }
+
+      default:
+        throw new ValidationError(`Condition ${index + 1}: unknown type ${String((condition as { type?: unknown }).type)}; expected file, pipe, process_exit, pane or port`);
+    }
+  }
+
+  private static validateWatchPath(path: string | undefined, index: number): string {
+    if (!path || path.includes('..') || !path.match(/^[/\w\-\.]+$/)) {
+      throw new ValidationError(`Condition ${index + 1}: invalid path`);
+    }
+    return path;
+  }
+
+  private static waitResponse(result: WaitResult): ToolResponse {
+    const name = (signal: WaitSignal) => `#${signal.index + 1} ${signal.type}${signal.label ? ` (${signal.label})` : ''}`;
+
+    const summary = result.satisfied
+      ? `Wait satisfied (${result.mode}) after ${result.elapsedMs}ms`
+      : `Wait timed out (${result.mode}) after ${result.elapsedMs}ms`;
+    const first = result.first
+      ? `\nFirst signal: ${name(result.first)}: ${result.first.detail}${result.first.context ? `\n\n${result.first.context.join('\n')}\n` : ''}`
+      : '';
+    const signals = result.signals.map(signal =>
+      signal.fired ? `- ${name(signal)}: fired after ${signal.firedAtMs}ms` : `- ${name(signal)}: not fired`
+    );
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${summary}${first}\n${signals.join('\n')}`
+      }, {
+        type: 'text',
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
   /**
    * Create a named pipe for bidirectional communication
    */
@@ -136,7 +603,7 @@ export class DetectionTools {
     const pipePath = `/tmp/zellij-pipe-${nameValidation.sanitized}`;
     
     try {
-      const result = await execAsync(`mkfifo -m ${mode} "${pipePath}"`);
+      const result = await execFileAsync('mkfifo', ['-m', mode, pipePath]);
       
       return {
         content: [{
@@ -173,74 +640,43 @@ export class DetectionTools {
       throw new ValidationError('Timeout must be between 1000ms and 600000ms (10 minutes)');
     }
 
-    return new Promise((resolve, reject) => {
-      const processId = `pipe-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      let completed = false;
-
-      const timeout = setTimeout(() => {
-        if (!completed) {
-          completed = true;
-          // Kill process if still running
-          if (this.processes.has(processId)) {
-            const proc = this.processes.get(processId)!;
-            proc.kill('SIGTERM');
-            this.processes.delete(processId);
-          }
-          resolve({
-            content: [{
-              type: 'text',
-              text: `Command piped with timeout completion after ${timeoutMs}ms: ${cmdValidation.sanitized}`
-            }]
-          });
-        }
-      }, timeoutMs);
-
-      try {
-        // Execute command and pipe to target
-        const proc = spawn('bash', ['-c', `${cmdValidation.sanitized} > "${targetPipe}"`], {
-          stdio: ['ignore', 'pipe', 'pipe']
-        });
+    // Runs as a background job, so its output and status stay queryable by id
+    const job = JobTools.spawnJob(cmdValidation.sanitized, { timeoutMs, stdoutTo: targetPipe });
+    this.jobIds.add(job.id);
+    const record = await JobTools.waitForJob(job.id, timeoutMs + 10000);
+    if (record.status !== 'running') {
+      this.jobIds.delete(job.id);
+    }
 
-        this.processes.set(processId, proc);
-
-        proc.on('exit', (code) => {
-          if (!completed) {
-            completed = true;
-            clearTimeout(timeout);
-            this.processes.delete(processId);
-            
-            resolve({
-              content: [{
-                type: 'text',
-                text: `Command completed with exit code ${code}: ${cmdValidation.sanitized}`
-              }]
-            });
-          }
-        });
+    if (record.status === 'failed') {
+      throw new ValidationError(`Command error: ${record.error}`);
+    }
 
-        proc.on('error', (error) => {
-          if (!completed) {
-            completed = true;
-            clearTimeout(timeout);
-            this.processes.delete(processId);
-            reject(new ValidationError(`Command error: ${error.message}`));
-          }
-        });
+    const outcome = record.status === 'timed_out'
+      ? `Command timed out after ${timeoutMs}ms and was stopped`
+      : record.status === 'running'
+        ? `Command did not exit after ${timeoutMs}ms`
+        : record.signal
+          ? `Command was killed by ${record.signal}`
+          : `Command completed with exit code ${record.exitCode}`;
 
-      } catch (error) {
-        if (!completed) {
-          completed = true;
-          clearTimeout(timeout);
-          reject(new ValidationError(`Failed to execute piped command: ${error instanceof Error ? error.message : String(error)}`));
-        }
-      }
-    });
+    return {
+      content: [{
+        type: 'text',
+        text: `${outcome} (${record.id}): ${cmdValidation.sanitized}`
+      }]
+    };
   }
 
   /**
-   * Poll process status by PID
+   * Poll a process until it exits (or changes state), tracking peak RSS and
+   * CPU from /proc, optionally summed over all of its descendants
    */
-  static async pollProcess(pid: string | number, intervalMs: number = 1000): Promise<ToolResponse> {
+  static async pollProcess(
+    pid: string | number,
+    intervalMs: number = 1000,
+    options: { timeoutMs?: number; until?: 'exit' | 'change'; tree?: boolean } = {}
+  ): Promise<ToolResponse> {
     // Validate PID
     const pidNum = typeof pid === 'string' ? parseInt(pid) : pid;
     if (isNaN(pidNum) || pidNum <= 0 || pidNum > 4194304) {
@@ -252,44 +688,180 @@ export class DetectionTools {
       throw new ValidationError('Interval must be between 100ms and 10000ms');
     }
 
-    try {
-      // Check if process exists
-      const result = await execAsync(`ps -p ${pidNum} -o pid,ppid,state,comm --no-headers`);
-      
-      if (result.stdout.trim()) {
-        const [pid, ppid, state, comm] = result.stdout.trim().split(/\s+/);
-        
-        return {
-          content: [{
-            type: 'text',
-            text: `Process ${pidNum} status:\nPID: ${pid}\nPPID: ${ppid}\nState: ${state}\nCommand: ${comm}`
-          }]
-        };
-      } else {
-        return {
-          content: [{
-            type: 'text',
-            text: `Process ${pidNum} not found or has exited`
-          }]
-        };
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const until = options.until ?? 'exit';
+
+    if (timeoutMs < 100 || timeoutMs > 3600000) {
+      throw new ValidationError('Timeout must be between 100ms and 3600000ms (1 hour)');
+    }
+
+    if (until !== 'exit' && until !== 'change') {
+      throw new ValidationError('Until must be "exit" or "change"');
+    }
+
+    if (!hasProcfs()) {
+      throw new ZellijError('Process polling needs /proc, which is only available on Linux');
+    }
+
+    const sample = (): ProcessTreeNode | undefined => {
+      if (options.tree) {
+        return buildProcessTree(pidNum, readAllProcesses());
       }
-    } catch (error) {
+      const info = readProcess(pidNum);
+      return info ? { ...info, children: [] } : undefined;
+    };
+
+    const first = sample();
+    if (!first) {
       return {
         content: [{
           type: 'text',
-          text: `Process ${pidNum} not found or error checking status: ${error instanceof Error ? error.message : String(error)}`
+          text: `Process ${pidNum} not found or has exited`
         }]
       };
     }
+
+    const startedAt = Date.now();
+    const result: ProcessPollResult = {
+      pid: pidNum,
+      command: first.cmdline ?? first.comm,
+      exited: false,
+      exitCode: null,
+      stateChanges: [],
+      elapsedMs: 0,
+      samples: 1,
+      peakRssKb: 0,
+      peakCpuPercent: 0,
+      timedOut: false,
+      tree: first
+    };
+
+    const trackRss = (node: ProcessTreeNode) => {
+      const rss = flattenProcessTree(node).reduce((sum, info) => sum + info.rssKb, 0);
+      // Without the tree, the kernel's high-water mark also catches peaks between samples
+      result.peakRssKb = Math.max(result.peakRssKb, rss, options.tree ? 0 : node.peakRssKb ?? 0);
+    };
+    trackRss(first);
+
+    let previous = first;
+    let previousAt = startedAt;
+
+    while (true) {
+      if (previous.state === 'Z' || previous.state === 'X') {
+        // Exited but not yet reaped by its parent
+        result.exited = true;
+        result.exitCode = previous.exitCode ?? null;
+        break;
+      }
+
+      if (until === 'change' && result.stateChanges.length > 0) {
+        break;
+      }
+
+      if (Date.now() - startedAt >= timeoutMs) {
+        result.timedOut = true;
+        break;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+
+      const now = Date.now();
+      const current = sample();
+      if (!current) {
+        result.exited = true;
+        break;
+      }
+      result.samples++;
+
+      // CPU used since the last sample by every process present now; new processes count in full
+      const before = new Map(flattenProcessTree(previous).map(info => [info.pid, info.cpuTicks]));
+      const ticks = flattenProcessTree(current)
+        .reduce((sum, info) => sum + Math.max(0, info.cpuTicks - (before.get(info.pid) ?? 0)), 0);
+      const seconds = (now - previousAt) / 1000;
+      if (seconds > 0) {
+        result.peakCpuPercent = Math.max(result.peakCpuPercent, Math.round(ticks / CLOCK_TICKS / seconds * 100));
+      }
+      trackRss(current);
+
+      if (this.stateCategory(current.state) !== this.stateCategory(previous.state)) {
+        result.stateChanges.push({ atMs: now - startedAt, from: previous.state, to: current.state });
+      }
+
+      result.tree = current;
+      previous = current;
+      previousAt = now;
+    }
+
+    result.elapsedMs = Date.now() - startedAt;
+    if (!result.exited || result.exitCode !== null) {
+      result.finalState = previous.state;
+    }
+    if (!options.tree) {
+      delete result.tree;
+    }
+
+    return this.pollResponse(result);
+  }
+
+  // Running and sleeping flip constantly; only moves between these groups count as changes
+  private static stateCategory(state: string): string {
+    if (state === 'T' || state === 't') {
+      return 'stopped';
+    }
+    if (state === 'Z' || state === 'X' || state === 'x') {
+      return 'exited';
+    }
+    return 'running';
+  }
+
+  private static pollResponse(result: ProcessPollResult): ToolResponse {
+    const megabytes = (kb: number) => `${(kb / 1024).toFixed(1)} MB`;
+    const name = `Process ${result.pid} (${result.command})`;
+
+    const summary = result.exited
+      ? `${name} exited after ${result.elapsedMs}ms${result.exitCode !== null ? ` with exit code ${result.exitCode}` : ''}`
+      : result.timedOut
+        ? `${name} still running after ${result.elapsedMs}ms (state ${result.finalState})`
+        : `${name} changed state after ${result.elapsedMs}ms`;
+
+    const lines = [
+      summary,
+      `Peak RSS: ${megabytes(result.peakRssKb)}, peak CPU: ${result.peakCpuPercent}%, samples: ${result.samples}`
+    ];
+
+    if (result.stateChanges.length > 0) {
+      lines.push(`State changes: ${result.stateChanges.map(change => `${change.from} -> ${change.to} at ${change.atMs}ms`).join(', ')}`);
+    }
+
+    if (result.tree) {
+      const render = (node: ProcessTreeNode, depth: number): string[] => [
+        `${'  '.repeat(depth)}${node.pid} ${node.comm} [${node.state}] ${megabytes(node.rssKb)}`,
+        ...node.children.flatMap(child => render(child, depth + 1))
+      ];
+      lines.push('', 'Process tree (last sample):', ...render(result.tree, 0));
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: lines.join('\n')
+      }, {
+        type: 'text',
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
   }
 
   /**
-   * Watch file for changes with inotify-like functionality
+   * Watch a file until it exists or a line matches one of the regex
+   * patterns. Only bytes appended since the last check are read, so large
+   * growing logs are never reloaded.
    */
   static async watchFile(
     filePath: string, 
     patterns?: string[], 
-    timeoutMs: number = 30000
+    timeoutMs: number = 30000,
+    options: { flags?: string; contextLines?: number; onlyNew?: boolean } = {}
   ): Promise<ToolResponse> {
     // Validate file path
     if (!filePath || filePath.includes('..') || !filePath.match(/^[/\w\-\.]+$/)) {
@@ -301,22 +873,23 @@ export class DetectionTools {
       throw new ValidationError('Timeout must be between 100ms and 300000ms (5 minutes)');
     }
 
-    // Validate patterns
-    const validatedPatterns: string[] = [];
-    if (patterns) {
-      for (const pattern of patterns) {
-        const patternValidation = Validator.validateString(pattern, 'pattern', 256);
-        if (!patternValidation.valid) {
-          throw new ValidationError(`Invalid pattern: ${patternValidation.errors.join(', ')}`);
-        }
-        validatedPatterns.push(patternValidation.sanitized!);
-      }
-    }
+    const contextLines = this.validateContextLines(options.contextLines);
+    const compiled = patterns && patterns.length > 0 ? this.compilePatterns(patterns, false, options.flags) : [];
+    const startedAt = Date.now();
+
+    // With onlyNew, content already in the file is skipped and line numbers count from there
+    const tail = new FileTail(filePath, options.onlyNew);
+    const lines = new LineBuffer(contextLines);
 
     return new Promise((resolve) => {
+      let settled = false;
+      let checking = false;
+      // A match whose after-context is still to come, in this read or a later one
+      let pending: { match: PatternMatch; missing: number } | undefined;
+      let contextWait: NodeJS.Timeout | undefined;
+
       const timeout = setTimeout(() => {
-        cleanup();
-        resolve({
+        finish(pending ? this.watchResponse(pending.match, `file ${filePath}`) : {
           content: [{
             type: 'text',
             text: `File watch timeout after ${timeoutMs}ms: ${filePath}`
@@ -324,46 +897,65 @@ export class DetectionTools {
         });
       }, timeoutMs);
 
-      const cleanup = () => {
+      const finish = (response: ToolResponse) => {
+        settled = true;
         clearTimeout(timeout);
+        clearTimeout(contextWait);
         if (this.watchers.has(filePath)) {
           unwatchFile(filePath);
           this.watchers.delete(filePath);
         }
+        resolve(response);
       };
 
-      const checkFile = () => {
+      const checkFile = async () => {
+        if (settled || checking) {
+          return;
+        }
+        checking = true;
+
         try {
           if (existsSync(filePath)) {
-            const content = readFileSync(filePath, 'utf-8');
-            
-            // Check for patterns if specified
-            if (validatedPatterns.length > 0) {
-              for (const pattern of validatedPatterns) {
-                if (content.includes(pattern)) {
-                  cleanup();
-                  resolve({
-                    content: [{
-                      type: 'text',
-                      text: `Pattern "${pattern}" found in file: ${filePath}`
-                    }]
-                  });
-                  return;
-                }
-              }
-            } else {
+            if (compiled.length === 0) {
               // Just report file existence/creation
-              cleanup();
-              resolve({
+              finish({
                 content: [{
                   type: 'text',
                   text: `File detected: ${filePath}`
                 }]
               });
+              return;
+            }
+
+            for (const text of tail.read()) {
+              const batch = lines.push(text);
+              if (pending) {
+                pending.match.context!.push(...batch.lines.slice(0, pending.missing));
+                pending.missing -= Math.min(pending.missing, batch.lines.length);
+              } else {
+                const match = this.matchBatch(batch, compiled, contextLines, startedAt);
+                if (match) {
+                  const after = batch.firstLineNumber + batch.lines.length - 1 - match.lineNumber!;
+                  pending = { match, missing: contextLines - Math.min(after, contextLines) };
+                  const found = pending.match;
+                  contextWait = setTimeout(() => finish(this.watchResponse(found, `file ${filePath}`)), AFTER_CONTEXT_WAIT_MS);
+                }
+              }
+              if (pending?.missing === 0) {
+                finish(this.watchResponse(pending.match, `file ${filePath}`));
+                return;
+              }
+              // Let timers and other requests run between chunks of a large file
+              await new Promise(resolve => setImmediate(resolve));
+              if (settled) {
+                return;
+              }
             }
           }
         } catch (error) {
-          // File might not exist yet or be readable, continue watching
+          // File might be mid-rotation or unreadable; keep watching
+        } finally {
+          checking = false;
         }
       };
 
@@ -371,8 +963,8 @@ export class DetectionTools {
       checkFile();
 
       // Watch for file changes
-      watchFile(filePath, (curr, prev) => {
-        if (curr.mtime > prev.mtime) {
+      watchFile(filePath, { interval: 500 }, (curr, prev) => {
+        if (curr.size !== prev.size || curr.mtimeMs !== prev.mtimeMs) {
           checkFile();
         }
       });
@@ -381,6 +973,50 @@ export class DetectionTools {
     });
   }
 
+  private static validateContextLines(contextLines: number = 3): number {
+    if (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > 50) {
+      throw new ValidationError('Context lines must be between 0 and 50');
+    }
+    return contextLines;
+  }
+
+  /**
+   * Match a batch of new lines; the match's line number is absolute and its
+   * context may include lines from earlier batches
+   */
+  private static matchBatch(
+    batch: LineBatch,
+    patterns: Array<OutputPattern & { regex: RegExp }>,
+    contextLines: number,
+    startedAt: number
+  ): PatternMatch | undefined {
+    const match = this.matchLines([...batch.before, ...batch.lines], batch.before.length, patterns, contextLines, startedAt);
+    if (!match.matched) {
+      return undefined;
+    }
+    match.lineNumber = batch.firstLineNumber + match.lineNumber! - 1 - batch.before.length;
+    return match;
+  }
+
+  private static watchResponse(match: PatternMatch, source: string): ToolResponse {
+    const groups = match.groups && match.groups.length > 0
+      ? `\nGroups: ${match.groups.map((group, index) => `$${index + 1}=${JSON.stringify(group ?? null)}`).join(', ')}`
+      : '';
+    const named = match.namedGroups
+      ? `\nNamed groups: ${Object.entries(match.namedGroups).map(([name, value]) => `${name}=${JSON.stringify(value ?? null)}`).join(', ')}`
+      : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Pattern /${match.pattern}/ matched line ${match.lineNumber} of ${source}: ${match.line}${groups}${named}\n\n${match.context!.join('\n')}`
+      }, {
+        type: 'text',
+        text: JSON.stringify(match, null, 2)
+      }]
+    };
+  }
+
   /**
    * Create LLM completion detector wrapper
    */
@@ -515,20 +1151,17 @@ The wrapper provides:
     }
     this.watchers.clear();
 
-    // Kill remaining processes
-    for (const [id, proc] of this.processes) {
-      try {
-        proc.kill('SIGTERM');
-        cleaned++;
-      } catch (error) {
-        // Process might already be dead
-      }
-    }
-    this.processes.clear();
+    // Stop piped commands that are still running
+    cleaned += JobTools.cancelJobs(this.jobIds);
+    this.jobIds.clear();
 
     // Clean up temporary files
     try {
-      await execAsync('find /tmp -name "llm-wrapper-*" -o -name "llm-status-*" -o -name "llm-output-*" -o -name "zellij-pipe-*" -mtime +1 -delete 2>/dev/null || true');
+      await execFileAsync('find', [
+        '/tmp', '-maxdepth', '1',
+        '(', '-name', 'llm-wrapper-*', '-o', '-name', 'llm-status-*', '-o', '-name', 'llm-output-*', '-o', '-name', 'zellij-pipe-*', ')',
+        '-mtime', '+1', '-delete'
+      ]);
     } catch (error) {
       // Ignore cleanup errors
     }
@@ -540,4 +1173,253 @@ The wrapper provides:
       }]
     };
   }
-}
\ No newline at end of file
+}
+
+export const DETECTION_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_watch_pipe',
+    description: 'Watch a pipe until a line matches a regex (returning the line, capture groups and context) or EOF',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pipe_path: { type: 'string', description: 'Path to the pipe to watch' },
+        patterns: { 
+          type: 'array', 
+          items: { type: 'string' },
+          description: 'Optional regular expressions matched against each line' 
+        },
+        flags: { type: 'string', description: 'Regex flags: any of i, m, s, u' },
+        context_lines: { type: 'number', description: 'Lines of context around the match (default: 3)' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 30000)' },
+      },
+      required: ['pipe_path'],
+    },
+    handler: args => DetectionTools.watchPipe(
+      args.pipe_path,
+      args.patterns,
+      args.timeout_ms,
+      {
+        flags: args.flags,
+        contextLines: args.context_lines
+      }
+    )
+  }),
+  defineTool({
+    name: 'zellij_create_named_pipe',
+    description: 'Create a named pipe for bidirectional communication',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pipe_name: { type: 'string', description: 'Name for the pipe (will be prefixed with /tmp/zellij-pipe-)' },
+        mode: { type: 'string', description: 'Pipe permissions in octal format (default: "0666")' },
+      },
+      required: ['pipe_name'],
+    },
+    handler: args => DetectionTools.createNamedPipe(
+      args.pipe_name,
+      args.mode
+    )
+  }),
+  defineTool({
+    name: 'zellij_pipe_with_timeout',
+    description: 'Run a command as a background job with its stdout piped to a target, waiting up to a timeout for it to exit',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to execute and pipe' },
+        target_pipe: { type: 'string', description: 'Target pipe path to write to' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 30000)' },
+      },
+      required: ['command', 'target_pipe'],
+    },
+    handler: args => DetectionTools.pipeWithTimeout(
+      args.command,
+      args.target_pipe,
+      args.timeout_ms
+    )
+  }),
+  defineTool({
+    name: 'zellij_poll_process',
+    description: 'Poll a process by PID until it exits or changes state, reporting elapsed time, peak RSS/CPU from /proc and optionally its descendant tree',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pid: { type: ['string', 'number'], description: 'Process ID to poll' },
+        interval_ms: { type: 'number', description: 'Polling interval in milliseconds (default: 1000)' },
+        timeout_ms: { type: 'number', description: 'Stop polling after this many milliseconds (default: 30000)' },
+        until: { type: 'string', enum: ['exit', 'change'], description: 'Return when the process exits, or on its first stop/continue/exit (default: exit)' },
+        tree: { type: 'boolean', description: 'Include all descendants in the resource totals and report the process tree' },
+      },
+      required: ['pid'],
+    },
+    handler: args => DetectionTools.pollProcess(
+      args.pid,
+      args.interval_ms,
+      {
+        timeoutMs: args.timeout_ms,
+        until: args.until,
+        tree: args.tree
+      }
+    )
+  }),
+  defineTool({
+    name: 'zellij_wait_for_pattern',
+    description: 'Wait until a pane\'s output matches one of several regexes (each labelled success or failure) or a timeout elapses',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        patterns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              pattern: { type: 'string', description: 'Regular expression matched against each line' },
+              label: { type: 'string', description: 'Optional label reported when this pattern matches' },
+              outcome: { type: 'string', enum: ['success', 'failure'], description: 'What a match means (default: success)' },
+            },
+            required: ['pattern'],
+          },
+          description: 'Patterns to wait for; the first matching line wins',
+        },
+        pane_id: { type: 'string', description: 'Optional pane to watch (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 30000)' },
+        scope: { type: 'string', enum: ['screen', 'scrollback'], description: 'Search the viewport only or the full scrollback (default: scrollback)' },
+        only_new: { type: 'boolean', description: 'Ignore output already present when the wait starts' },
+        context_lines: { type: 'number', description: 'Lines of context around the match (default: 3)' },
+        ignore_case: { type: 'boolean', description: 'Case-insensitive matching' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['patterns'],
+    },
+    handler: args => DetectionTools.waitForPattern(args.patterns, {
+      sessionName: args.session_name,
+      paneId: args.pane_id,
+      timeoutMs: args.timeout_ms,
+      scope: args.scope,
+      onlyNew: args.only_new,
+      contextLines: args.context_lines,
+      ignoreCase: args.ignore_case
+    })
+  }),
+  defineTool({
+    name: 'zellij_wait_for',
+    description: 'Wait for any or all of several conditions (file, FIFO, process exit, pane output, TCP port) and report which fired first',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conditions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['file', 'pipe', 'process_exit', 'pane', 'port'], description: 'Kind of condition' },
+              label: { type: 'string', description: 'Optional label reported when this condition fires' },
+              path: { type: 'string', description: 'File or named pipe path (file, pipe)' },
+              pattern: { type: 'string', description: 'Regular expression matched per line (optional for file, required for pipe and pane)' },
+              pid: { type: 'number', description: 'Process ID to wait on (process_exit)' },
+              pane_id: { type: 'string', description: 'Pane to watch (pane; needs an attached client); defaults to the focused pane' },
+              only_new: { type: 'boolean', description: 'Ignore output already present when the wait starts (pane)' },
+              port: { type: 'number', description: 'TCP port that should accept connections (port)' },
+              host: { type: 'string', description: 'Loopback host for the port check (default: 127.0.0.1)' },
+            },
+            required: ['type'],
+          },
+          description: 'Conditions to wait for',
+        },
+        mode: { type: 'string', enum: ['any', 'all'], description: 'Finish when any condition fires or once all have (default: any)' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 30000)' },
+        interval_ms: { type: 'number', description: 'Polling interval in milliseconds (default: 500)' },
+        session_name: { type: 'string', description: 'Optional target session for pane conditions (defaults to the current session)' },
+      },
+      required: ['conditions'],
+    },
+    handler: args => DetectionTools.waitFor(
+      args.conditions.map(condition => ({
+        type: condition.type,
+        label: condition.label,
+        path: condition.path,
+        pattern: condition.pattern,
+        pid: condition.pid,
+        paneId: condition.pane_id,
+        onlyNew: condition.only_new,
+        port: condition.port,
+        host: condition.host
+      })),
+      {
+        mode: args.mode,
+        timeoutMs: args.timeout_ms,
+        intervalMs: args.interval_ms,
+        sessionName: args.session_name
+      }
+    )
+  }),
+  defineTool({
+    name: 'zellij_watch_file',
+    description: 'Watch a file until it exists or an appended line matches a regex, returning the line, capture groups and context; only new bytes are read on each change',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to the file to watch' },
+        patterns: { 
+          type: 'array', 
+          items: { type: 'string' },
+          description: 'Optional regular expressions matched against each line' 
+        },
+        flags: { type: 'string', description: 'Regex flags: any of i, m, s, u' },
+        context_lines: { type: 'number', description: 'Lines of context around the match (default: 3)' },
+        only_new: { type: 'boolean', description: 'Skip content already in the file when the watch starts' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 30000)' },
+      },
+      required: ['file_path'],
+    },
+    handler: args => DetectionTools.watchFile(
+      args.file_path,
+      args.patterns,
+      args.timeout_ms,
+      {
+        flags: args.flags,
+        contextLines: args.context_lines,
+        onlyNew: args.only_new
+      }
+    )
+  }),
+  defineTool({
+    name: 'zellij_create_llm_wrapper',
+    description: 'Create LLM completion detector wrapper script',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        wrapper_name: { type: 'string', description: 'Name for the wrapper script' },
+        llm_command: { type: 'string', description: 'LLM command to wrap' },
+        detect_marker: { type: 'string', description: 'Completion detection marker (default: "<<<LLM_COMPLETE>>>")' },
+        timeout_ms: { type: 'number', description: 'Timeout in milliseconds (default: 60000)' },
+      },
+      required: ['wrapper_name', 'llm_command'],
+    },
+    handler: args => DetectionTools.createLLMWrapper(
+      args.wrapper_name,
+      args.llm_command,
+      args.detect_marker,
+      args.timeout_ms
+    )
+  }),
+  defineTool({
+    name: 'zellij_cleanup_detection',
+    description: 'Clean up detection resources (watchers, still-running piped commands, temp files); jobs from zellij_job_start are left alone',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => DetectionTools.cleanupDetection()
+  }),
+];
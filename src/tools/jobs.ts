@@ -0,0 +1,480 @@
+import { splitCommandLine } from '../utils/command.js';
+import { Validator } from '../utils/validator.js';
+import { selectLines } from '../utils/screen.js';
+import { defineTool, ToolDefinition, READ_ONLY, DESTRUCTIVE, RUNS_COMMANDS } from '../registry.js';
+import { ToolResponse, ValidationError, ZellijError, JobRecord } from '../types/zellij.js';
+import { spawn, ChildProcess } from 'child_process';
+import { createWriteStream } from 'fs';
+
+// Output kept per stream; older output is dropped once this is exceeded
+const MAX_OUTPUT_CHARS = 1024 * 1024;
+const MAX_RUNNING_JOBS = 20;
+// How long a cancelled job gets to exit before it is sent SIGKILL
+const KILL_GRACE_MS = 5000;
+
+interface JobEntry {
+  record: JobRecord;
+  child?: ChildProcess;
+  stdout: string;
+  stderr: string;
+  cancelled: boolean;
+  timedOut: boolean;
+  done: Promise<void>;
+}
+
+export class JobTools {
+  private static jobs = new Map<string, JobEntry>();
+  private static jobCounter = 0;
+
+  /**
+   * Spawn a command as a background job and return its record immediately.
+   * With `stdoutTo`, stdout is also streamed to that file or pipe.
+   */
+  static spawnJob(command: string, options: { cwd?: string; timeoutMs?: number; stdoutTo?: string } = {}): JobRecord {
+    const cmdValidation = Validator.validateCommand(command);
+    if (!cmdValidation.valid) {
+      throw new ValidationError(`Invalid command: ${cmdValidation.errors.join(', ')}`);
+    }
+
+    if (options.cwd !== undefined) {
+      const cwdValidation = Validator.validateString(options.cwd, 'working directory', 512);
+      if (!cwdValidation.valid) {
+        throw new ValidationError(`Invalid working directory: ${cwdValidation.errors.join(', ')}`);
+      }
+    }
+
+    if (options.timeoutMs !== undefined && (options.timeoutMs < 100 || options.timeoutMs > 86400000)) {
+      throw new ValidationError('Timeout must be between 100ms and 86400000ms (24 hours)');
+    }
+
+    const running = [...this.jobs.values()].filter(job => job.record.status === 'running').length;
+    if (running >= MAX_RUNNING_JOBS) {
+      throw new ValidationError(`Too many running jobs (max ${MAX_RUNNING_JOBS}); wait for or cancel one first`);
+    }
+
+    const [file, ...args] = splitCommandLine(cmdValidation.sanitized);
+    if (!file) {
+      throw new ValidationError('Invalid command: nothing to run');
+    }
+
+    // Spawn before the job is recorded, so a synchronous failure leaves no
+    // job stuck in "running"
+    let child: ChildProcess;
+    try {
+      child = spawn(file, args, {
+        cwd: options.cwd,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+    } catch (error) {
+      throw new ZellijError(`Could not start ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const record: JobRecord = {
+      id: `job-${++this.jobCounter}`,
+      command: cmdValidation.sanitized,
+      status: 'running',
+      exitCode: null,
+      signal: null,
+      startedAt: new Date().toISOString(),
+      stdoutBytes: 0,
+      stderrBytes: 0,
+      pid: child.pid
+    };
+    if (options.cwd !== undefined) {
+      record.cwd = options.cwd;
+    }
+    if (options.timeoutMs !== undefined) {
+      record.timeoutMs = options.timeoutMs;
+    }
+
+    let finish!: () => void;
+    const entry: JobEntry = {
+      record,
+      child,
+      stdout: '',
+      stderr: '',
+      cancelled: false,
+      timedOut: false,
+      done: new Promise<void>(resolve => {
+        finish = resolve;
+      })
+    };
+    this.jobs.set(record.id, entry);
+
+    child.stdout!.setEncoding('utf8');
+    child.stderr!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      record.stdoutBytes += Buffer.byteLength(chunk);
+      entry.stdout = (entry.stdout + chunk).slice(-MAX_OUTPUT_CHARS);
+    });
+    child.stderr!.on('data', (chunk: string) => {
+      record.stderrBytes += Buffer.byteLength(chunk);
+      entry.stderr = (entry.stderr + chunk).slice(-MAX_OUTPUT_CHARS);
+    });
+
+    if (options.stdoutTo) {
+      const target = createWriteStream(options.stdoutTo);
+      target.on('error', error => {
+        entry.stderr += `\n[stdout target error: ${error.message}]\n`;
+      });
+      child.stdout!.pipe(target);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    if (options.timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        entry.timedOut = true;
+        this.terminate(entry, 'SIGTERM');
+      }, options.timeoutMs);
+    }
+
+    const settle = (update: Partial<JobRecord>) => {
+      if (record.status !== 'running') {
+        return;
+      }
+      clearTimeout(timer);
+      Object.assign(record, update);
+      record.endedAt = new Date().toISOString();
+      record.durationMs = Date.parse(record.endedAt) - Date.parse(record.startedAt);
+      entry.child = undefined;
+      finish();
+    };
+
+    // 'close' rather than 'exit' so all output has been read
+    child.on('close', (code, signal) => {
+      settle({
+        status: entry.timedOut ? 'timed_out' : entry.cancelled ? 'killed' : signal ? 'killed' : 'exited',
+        exitCode: code,
+        signal
+      });
+    });
+
+    child.on('error', error => {
+      settle({ status: 'failed', error: error.message });
+    });
+
+    return { ...record };
+  }
+
+  /**
+   * Start a background job
+   */
+  static async start(command: string, options: { cwd?: string; timeoutMs?: number } = {}): Promise<ToolResponse> {
+    const record = this.spawnJob(command, options);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Started ${record.id}${record.pid ? ` (pid ${record.pid})` : ''}: ${record.command}`
+      }, {
+        type: 'text',
+        text: JSON.stringify(record, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Status of one job, or of every job still on record
+   */
+  static async status(jobId?: string): Promise<ToolResponse> {
+    const records = jobId ? [this.getEntry(jobId).record] : [...this.jobs.values()].map(job => job.record);
+
+    return {
+      content: [{
+        type: 'text',
+        text: records.length > 0 ? records.map(record => this.describe(record)).join('\n') : 'No jobs'
+      }, {
+        type: 'text',
+        text: JSON.stringify(jobId ? records[0] : records, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Last lines of a job's stdout and/or stderr
+   */
+  static async output(jobId: string, options: { stream?: 'stdout' | 'stderr' | 'both'; tailLines?: number } = {}): Promise<ToolResponse> {
+    const entry = this.getEntry(jobId);
+    const stream = options.stream ?? 'both';
+    const tailLines = options.tailLines ?? 100;
+
+    if (stream !== 'stdout' && stream !== 'stderr' && stream !== 'both') {
+      throw new ValidationError('Stream must be stdout, stderr or both');
+    }
+
+    if (!Number.isInteger(tailLines) || tailLines < 1 || tailLines > 10000) {
+      throw new ValidationError('Tail lines must be between 1 and 10000');
+    }
+
+    const tail = (text: string) => {
+      const lines = text.split('\n');
+      if (lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+      return selectLines(lines, { tail: tailLines }).lines.join('\n');
+    };
+
+    const sections: string[] = [];
+    if (stream !== 'stderr') {
+      sections.push(`stdout:\n${tail(entry.stdout) || '(empty)'}`);
+    }
+    if (stream !== 'stdout') {
+      sections.push(`stderr:\n${tail(entry.stderr) || '(empty)'}`);
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${this.describe(entry.record)}\n\n${sections.join('\n\n')}`
+      }]
+    };
+  }
+
+  /**
+   * Wait for a job to finish, up to a timeout
+   */
+  static async wait(jobId: string, timeoutMs: number = 30000): Promise<ToolResponse> {
+    const record = await this.waitForJob(jobId, timeoutMs);
+
+    return {
+      content: [{
+        type: 'text',
+        text: record.status === 'running'
+          ? `${record.id} still running after waiting ${timeoutMs}ms`
+          : this.describe(record)
+      }, {
+        type: 'text',
+        text: JSON.stringify(record, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Resolve with the job's record once it finishes or the timeout elapses
+   */
+  static async waitForJob(jobId: string, timeoutMs: number = 30000): Promise<JobRecord> {
+    const entry = this.getEntry(jobId);
+
+    if (timeoutMs < 100 || timeoutMs > 86400000) {
+      throw new ValidationError('Timeout must be between 100ms and 86400000ms (24 hours)');
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      entry.done,
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, timeoutMs);
+      })
+    ]);
+    clearTimeout(timer);
+
+    return { ...entry.record };
+  }
+
+  /**
+   * Stop a running job; it is sent SIGKILL if it outlives the grace period
+   */
+  static async cancel(jobId: string, signal: string = 'SIGTERM'): Promise<ToolResponse> {
+    const entry = this.getEntry(jobId);
+
+    if (!/^SIG[A-Z0-9]+$/.test(signal)) {
+      throw new ValidationError('Signal must be a signal name such as SIGTERM or SIGINT');
+    }
+
+    if (entry.record.status !== 'running') {
+      return {
+        content: [{
+          type: 'text',
+          text: `${entry.record.id} is not running (${entry.record.status})`
+        }]
+      };
+    }
+
+    entry.cancelled = true;
+    this.terminate(entry, signal as NodeJS.Signals);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Sent ${signal} to ${entry.record.id}${entry.record.pid ? ` (pid ${entry.record.pid})` : ''}`
+      }]
+    };
+  }
+
+  /**
+   * Cancel those of the given jobs that are still running; returns how many
+   * were signalled
+   */
+  static cancelJobs(jobIds: Iterable<string>): number {
+    let cancelled = 0;
+    for (const jobId of jobIds) {
+      const entry = this.jobs.get(jobId);
+      if (entry?.record.status === 'running') {
+        entry.cancelled = true;
+        this.terminate(entry, 'SIGTERM');
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Forget a finished job, or every finished job when no id is given
+   */
+  static async purge(jobId?: string): Promise<ToolResponse> {
+    if (jobId) {
+      const entry = this.getEntry(jobId);
+      if (entry.record.status === 'running') {
+        throw new ValidationError(`${jobId} is still running; cancel it first`);
+      }
+      this.jobs.delete(jobId);
+      return {
+        content: [{
+          type: 'text',
+          text: `Purged ${jobId}`
+        }]
+      };
+    }
+
+    const finished = [...this.jobs.values()].filter(entry => entry.record.status !== 'running');
+    finished.forEach(entry => this.jobs.delete(entry.record.id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Purged ${finished.length} finished job${finished.length === 1 ? '' : 's'}`
+      }]
+    };
+  }
+
+  private static terminate(entry: JobEntry, signal: NodeJS.Signals): void {
+    const child = entry.child;
+    if (!child) {
+      return;
+    }
+
+    try {
+      child.kill(signal);
+    } catch (error) {
+      throw new ValidationError(`Failed to signal ${entry.record.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const escalate = setTimeout(() => {
+      if (entry.record.status === 'running') {
+        child.kill('SIGKILL');
+      }
+    }, KILL_GRACE_MS);
+    escalate.unref();
+  }
+
+  private static getEntry(jobId: string): JobEntry {
+    const entry = typeof jobId === 'string' ? this.jobs.get(jobId) : undefined;
+    if (!entry) {
+      throw new ValidationError(`Unknown job: ${jobId}`);
+    }
+    return entry;
+  }
+
+  private static describe(record: JobRecord): string {
+    const outcome = record.status === 'running'
+      ? `running for ${Date.now() - Date.parse(record.startedAt)}ms`
+      : record.status === 'failed'
+        ? `failed to start: ${record.error}`
+        : `${record.signal ? `signal ${record.signal}` : `exit code ${record.exitCode}`} after ${record.durationMs}ms`;
+
+    return `${record.id} [${record.status}]${record.pid ? ` pid ${record.pid}` : ''}: ${record.command} (${outcome})`;
+  }
+}
+
+export const JOB_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_job_start',
+    description: 'Start a command as a background job and return its id',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to run (no shell; quoting is honoured)' },
+        cwd: { type: 'string', description: 'Working directory' },
+        timeout_ms: { type: 'number', description: 'Stop the job with SIGTERM after this many milliseconds' },
+      },
+      required: ['command'],
+    },
+    handler: args => JobTools.start(args.command, {
+      cwd: args.cwd,
+      timeoutMs: args.timeout_ms
+    })
+  }),
+  defineTool({
+    name: 'zellij_job_status',
+    description: 'Get the status, exit code, signal and timestamps of a job, or of all jobs',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: { type: 'string', description: 'Optional job id; omit to list every job' },
+      },
+      required: [],
+    },
+    handler: args => JobTools.status(args.job_id)
+  }),
+  defineTool({
+    name: 'zellij_job_output',
+    description: 'Get the last lines of a job\'s stdout and/or stderr',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: { type: 'string', description: 'Job id returned by zellij_job_start' },
+        stream: { type: 'string', enum: ['stdout', 'stderr', 'both'], description: 'Which output to return (default: both)' },
+        tail_lines: { type: 'number', description: 'Number of lines from the end (default: 100)' },
+      },
+      required: ['job_id'],
+    },
+    handler: args => JobTools.output(args.job_id, {
+      stream: args.stream,
+      tailLines: args.tail_lines
+    })
+  }),
+  defineTool({
+    name: 'zellij_job_wait',
+    description: 'Wait for a job to finish, up to a timeout',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: { type: 'string', description: 'Job id returned by zellij_job_start' },
+        timeout_ms: { type: 'number', description: 'How long to wait (default: 30000)' },
+      },
+      required: ['job_id'],
+    },
+    handler: args => JobTools.wait(args.job_id, args.timeout_ms)
+  }),
+  defineTool({
+    name: 'zellij_job_cancel',
+    description: 'Signal a running job to stop; it is killed if still running 5 seconds later',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: { type: 'string', description: 'Job id returned by zellij_job_start' },
+        signal: { type: 'string', description: 'Signal to send (default: SIGTERM)' },
+      },
+      required: ['job_id'],
+    },
+    handler: args => JobTools.cancel(args.job_id, args.signal)
+  }),
+  defineTool({
+    name: 'zellij_job_purge',
+    description: 'Forget a finished job, or all finished jobs',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: { type: 'string', description: 'Optional job id; omit to purge every finished job' },
+      },
+      required: [],
+    },
+    handler: args => JobTools.purge(args.job_id)
+  }),
+];
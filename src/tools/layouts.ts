@@ -1,16 +1,22 @@
-import { execAsync } from '../utils/command.js';
+import { execZellij } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
 import { cache } from '../utils/cache.js';
+import { focusLock } from '../utils/mutex.js';
+import { SessionTools } from './sessions.js';
+import { parseLayout, serializeLayout, checkLayout } from '../utils/layout.js';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES, DESTRUCTIVE } from '../registry.js';
 import { ToolResponse, ZellijLayout, ValidationError } from '../types/zellij.js';
 import { writeFileSync, readFileSync, existsSync, readdirSync } from 'fs';
-import { join } from 'path';
+import { join, basename } from 'path';
 
 export class LayoutTools {
 
   /**
    * Dump current layout to stdout or file
    */
-  static async dumpLayout(outputPath?: string): Promise<ToolResponse> {
+  static async dumpLayout(outputPath?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate output path if provided
     if (outputPath) {
       if (outputPath.includes('..') || !outputPath.match(/^[\w\/\-\.]+$/)) {
@@ -18,7 +24,7 @@ export class LayoutTools {
       }
     }
 
-    const result = await execAsync('zellij action dump-layout');
+    const result = await execZellij({ command: 'action', session, args: ['dump-layout'] });
     
     if (outputPath) {
       // Save to file
@@ -42,7 +48,9 @@ export class LayoutTools {
   /**
    * Save current layout to a named file in layouts directory
    */
-  static async saveLayout(layoutName: string, layoutsDir?: string): Promise<ToolResponse> {
+  static async saveLayout(layoutName: string, layoutsDir?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate layout name
     const nameValidation = Validator.validateString(layoutName, 'layout name', 64);
     if (!nameValidation.valid) {
@@ -50,7 +58,7 @@ export class LayoutTools {
     }
 
     // Determine layouts directory
-    const layoutDirectory = layoutsDir || join(process.env.HOME || '/tmp', '.config/zellij/layouts');
+    const layoutDirectory = this.layoutsDirectory(layoutsDir);
     const layoutPath = join(layoutDirectory, `${layoutName}.kdl`);
 
     // Validate directory path
@@ -66,7 +74,7 @@ export class LayoutTools {
       }
 
       // Get current layout
-      const result = await execAsync('zellij action dump-layout');
+      const result = await execZellij({ command: 'action', session, args: ['dump-layout'] });
       
       // Save layout
       writeFileSync(layoutPath, result.stdout);
@@ -103,13 +111,27 @@ export class LayoutTools {
       }
     }
 
-    let command = `--layout ${layoutName}`;
-    
+    // A session that does not exist yet is created detached with the layout
     if (sessionName) {
-      command = `--session ${sessionName} ${command}`;
+      const existing = await SessionTools.findSession(sessionName);
+      if (existing?.exited) {
+        throw new ValidationError(`Session has exited: ${sessionName}. Resurrect it before applying a layout`);
+      }
+
+      if (!existing) {
+        await SessionTools.createBackgroundSession(sessionName, layoutName);
+
+        return {
+          content: [{
+            type: 'text',
+            text: `Layout applied: ${layoutName} to new background session: ${sessionName}`
+          }]
+        };
+      }
     }
 
-    const result = await execAsync(`zellij ${command}`);
+    // Running sessions get the layout as a new tab
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session: sessionName, args: ['new-tab', '--layout', layoutName] }));
 
     return {
       content: [{
@@ -119,6 +141,13 @@ export class LayoutTools {
     };
   }
 
+  /**
+   * Directory holding saved layouts; defaults to ~/.config/zellij/layouts
+   */
+  static layoutsDirectory(layoutsDir?: string): string {
+    return layoutsDir || join(process.env.HOME || '/tmp', '.config/zellij/layouts');
+  }
+
   /**
    * List available layouts
    */
@@ -137,7 +166,7 @@ export class LayoutTools {
 
     try {
       // Determine layouts directory
-      const layoutDirectory = layoutsDir || join(process.env.HOME || '/tmp', '.config/zellij/layouts');
+      const layoutDirectory = this.layoutsDirectory(layoutsDir);
       
       let output = `Available Layouts:\n\n`;
 
@@ -198,7 +227,7 @@ export class LayoutTools {
         layoutPath = layoutName;
       } else {
         // Look in layouts directory
-        const layoutDirectory = layoutsDir || join(process.env.HOME || '/tmp', '.config/zellij/layouts');
+        const layoutDirectory = this.layoutsDirectory(layoutsDir);
         layoutPath = join(layoutDirectory, `${layoutName}.kdl`);
       }
 
@@ -227,7 +256,9 @@ export class LayoutTools {
   /**
    * Create a new tab with specific layout
    */
-  static async newTabWithLayout(layoutName: string, tabName?: string): Promise<ToolResponse> {
+  static async newTabWithLayout(layoutName: string, tabName?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate layout name
     const nameValidation = Validator.validateString(layoutName, 'layout name', 64);
     if (!nameValidation.valid) {
@@ -242,13 +273,13 @@ export class LayoutTools {
       }
     }
 
-    let command = `action new-tab --layout ${layoutName}`;
+    const args = ['new-tab', '--layout', layoutName];
     
     if (tabName) {
-      command += ` --name "${tabName}"`;
+      args.push('--name', tabName);
     }
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
 
     return {
       content: [{
@@ -259,7 +290,7 @@ export class LayoutTools {
   }
 
   /**
-   * Convert layout format (basic conversion utilities)
+   * Convert a layout between KDL and its JSON model
    */
   static async convertLayout(inputPath: string, outputPath: string, fromFormat: 'kdl' | 'json', toFormat: 'kdl' | 'json'): Promise<ToolResponse> {
     // Validate paths
@@ -280,12 +311,10 @@ export class LayoutTools {
       let outputContent: string;
 
       if (fromFormat === 'kdl' && toFormat === 'json') {
-        // Convert KDL to JSON (simplified)
-        outputContent = this.convertKdlToJson(inputContent);
+        const name = basename(inputPath).replace(/\.kdl$/, '');
+        outputContent = JSON.stringify(parseLayout(inputContent, name), null, 2) + '\n';
       } else if (fromFormat === 'json' && toFormat === 'kdl') {
-        // Convert JSON to KDL (simplified)
-        const jsonData = JSON.parse(inputContent);
-        outputContent = this.convertJsonToKdl(jsonData);
+        outputContent = serializeLayout(JSON.parse(inputContent));
       } else if (fromFormat === toFormat) {
         // Just copy
         outputContent = inputContent;
@@ -307,47 +336,7 @@ export class LayoutTools {
   }
 
   /**
-   * Simple KDL to JSON conversion (basic implementation)
-   */
-  private static convertKdlToJson(kdlContent: string): string {
-    // This is a very basic conversion - a full KDL parser would be much more complex
-    const layout = {
-      name: 'converted-layout',
-      tabs: [{
-        name: 'main',
-        panes: [{ split_direction: 'horizontal' }]
-      }]
-    };
-
-    return JSON.stringify(layout, null, 2);
-  }
-
-  /**
-   * Simple JSON to KDL conversion (basic implementation)
-   */
-  private static convertJsonToKdl(jsonData: any): string {
-    // This is a very basic conversion - a full implementation would be much more complex
-    let kdl = 'layout {\n';
-    
-    if (jsonData.tabs && Array.isArray(jsonData.tabs)) {
-      for (const tab of jsonData.tabs) {
-        kdl += '  tab {\n';
-        if (tab.name) {
-          kdl += `    name "${tab.name}"\n`;
-        }
-        kdl += '    pane\n';
-        kdl += '  }\n';
-      }
-    } else {
-      kdl += '  tab {\n    pane\n  }\n';
-    }
-    
-    kdl += '}\n';
-    return kdl;
-  }
-
-  /**
-   * Validate layout file syntax
+   * Validate a layout file offline against Zellij's layout grammar
    */
   static async validateLayout(layoutPath: string): Promise<ToolResponse> {
     // Validate path
@@ -359,37 +348,124 @@ export class LayoutTools {
       throw new ValidationError('Layout file does not exist');
     }
 
-    try {
-      // Try to use the layout to validate it
-      const tempSessionName = `validate-${Date.now()}`;
-      
-      try {
-        await execAsync(`zellij --session ${tempSessionName} --layout ${layoutPath} action close-tab`);
-        // If we get here, layout loaded successfully
-        
-        // Clean up the test session
-        try {
-          await execAsync(`zellij delete-session ${tempSessionName}`);
-        } catch (e) {
-          // Ignore cleanup errors
-        }
+    const diagnostics = checkLayout(readFileSync(layoutPath, 'utf8'));
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+    const warnings = diagnostics.length - errors;
 
-        return {
-          content: [{
-            type: 'text',
-            text: `Layout validation successful: ${layoutPath}\nSyntax is valid and can be loaded by Zellij`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: 'text',
-            text: `Layout validation failed: ${layoutPath}\nError: ${error instanceof Error ? error.message : String(error)}\nPlease check the layout syntax`
-          }]
-        };
-      }
-    } catch (error) {
-      throw new ValidationError(`Failed to validate layout: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    const lines = diagnostics.map(diagnostic =>
+      `${layoutPath}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message}`
+    );
+    const summary = errors > 0
+      ? `Layout validation failed: ${layoutPath} (${errors} error(s), ${warnings} warning(s))`
+      : `Layout is valid: ${layoutPath}${warnings > 0 ? ` (${warnings} warning(s))` : ''}`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: [summary, ...lines].join('\n')
+      }, {
+        type: 'text',
+        text: JSON.stringify({ valid: errors === 0, diagnostics }, null, 2)
+      }]
+    };
   }
-}
\ No newline at end of file
+}
+
+export const LAYOUT_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_dump_layout',
+    description: 'Dump current layout to stdout or file',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_path: { type: 'string', description: 'Optional output file path' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+    },
+    handler: args => LayoutTools.dumpLayout(args.output_path, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_save_layout',
+    description: 'Save current layout to layouts directory',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layout_name: { type: 'string', description: 'Name for the saved layout' },
+        layouts_dir: { type: 'string', description: 'Optional custom layouts directory' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['layout_name'],
+    },
+    handler: args => LayoutTools.saveLayout(args.layout_name, args.layouts_dir, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_apply_layout',
+    description: 'Apply a layout as a new tab in a running session, or create a background session with it',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layout_name: { type: 'string', description: 'Name of layout to apply' },
+        session_name: { type: 'string', description: 'Optional session name' },
+      },
+      required: ['layout_name'],
+    },
+    handler: args => LayoutTools.applyLayout(args.layout_name, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_list_layouts',
+    description: 'List available layouts',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layouts_dir: { type: 'string', description: 'Optional custom layouts directory' },
+      },
+    },
+    handler: args => LayoutTools.listLayouts(args.layouts_dir)
+  }),
+  defineTool({
+    name: 'zellij_load_layout',
+    description: 'Load and display layout content',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layout_name: { type: 'string', description: 'Name of layout to load' },
+        layouts_dir: { type: 'string', description: 'Optional custom layouts directory' },
+      },
+      required: ['layout_name'],
+    },
+    handler: args => LayoutTools.loadLayout(args.layout_name, args.layouts_dir)
+  }),
+  defineTool({
+    name: 'zellij_new_tab_with_layout',
+    description: 'Create new tab with specific layout',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layout_name: { type: 'string', description: 'Layout to apply to new tab' },
+        tab_name: { type: 'string', description: 'Optional name for new tab' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['layout_name'],
+    },
+    handler: args => LayoutTools.newTabWithLayout(args.layout_name, args.tab_name, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_validate_layout',
+    description: 'Validate a layout file offline and report errors and warnings with line and column',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        layout_path: { type: 'string', description: 'Path to layout file to validate' },
+      },
+      required: ['layout_path'],
+    },
+    handler: args => LayoutTools.validateLayout(args.layout_path)
+  }),
+];
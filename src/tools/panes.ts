@@ -1,16 +1,32 @@
-import { execAsync } from '../utils/command.js';
+import { execZellij, splitCommandLine } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
 import { cache } from '../utils/cache.js';
-import { ToolResponse, ValidationError } from '../types/zellij.js';
-import { writeFileSync } from 'fs';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES, DESTRUCTIVE, RUNS_COMMANDS } from '../registry.js';
+import { ToolResponse, ValidationError, ZellijError, ZellijPane, ZellijClient, PaneCommandResult, PaneReadCursor, LayoutTabSummary } from '../types/zellij.js';
+import { parseLayout, summarizeLayout } from '../utils/layout.js';
+import { stripAnsi } from '../utils/ansi.js';
+import { focusLock } from '../utils/mutex.js';
+import { encodeKey } from '../utils/keys.js';
+import { screenLines, selectLines, findAfterAnchor } from '../utils/screen.js';
+import { writeFileSync, readFileSync, existsSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 export class PaneTools {
+  private static dumpCounter = 0;
+  // Client -> session:pane -> cursor; each client reads at its own pace
+  private static readCursors = new Map<string, Map<string, PaneReadCursor>>();
+  // Session -> pane ids learned by resolvePaneIds, keyed by tab:index
+  private static resolvedIds = new Map<string, { signature: string; ids: Map<string, string> }>();
+  private static readonly CURSOR_ANCHOR_LINES = 5;
 
   /**
    * Advanced pane creation with full options
    */
-  static async newPane(direction?: string, command?: string, cwd?: string): Promise<ToolResponse> {
-    let actionCommand = 'new-pane';
+  static async newPane(direction?: string, command?: string, cwd?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const args = ['new-pane'];
     
     // Validate and add direction
     if (direction) {
@@ -18,7 +34,7 @@ export class PaneTools {
       if (!dirValidation.valid) {
         throw new ValidationError(`Invalid direction: ${dirValidation.errors.join(', ')}`);
       }
-      actionCommand += ` --direction ${dirValidation.sanitized}`;
+      args.push('--direction', dirValidation.sanitized);
     }
 
     // Validate and add working directory
@@ -27,7 +43,7 @@ export class PaneTools {
       if (!cwdValidation.valid) {
         throw new ValidationError(`Invalid working directory: ${cwdValidation.errors.join(', ')}`);
       }
-      actionCommand += ` --cwd "${cwd}"`;
+      args.push('--cwd', cwd);
     }
 
     // Validate and add command
@@ -36,10 +52,10 @@ export class PaneTools {
       if (!cmdValidation.valid) {
         throw new ValidationError(`Invalid command: ${cmdValidation.errors.join(', ')}`);
       }
-      actionCommand += ` -- ${command}`;
+      args.push('--', ...splitCommandLine(cmdValidation.sanitized));
     }
 
-    const result = await execAsync(`zellij action ${actionCommand}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
 
     return {
       content: [{
@@ -52,14 +68,16 @@ export class PaneTools {
   /**
    * Swap pane positions
    */
-  static async swapPanes(direction: string): Promise<ToolResponse> {
+  static async swapPanes(direction: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate direction
     const dirValidation = Validator.validateDirection(direction);
     if (!dirValidation.valid) {
       throw new ValidationError(`Invalid direction: ${dirValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action move-pane ${dirValidation.sanitized}`);
+    const result = await execZellij({ command: 'action', session, args: ['move-pane', dirValidation.sanitized] });
 
     return {
       content: [{
@@ -72,7 +90,9 @@ export class PaneTools {
   /**
    * Stack panes by IDs
    */
-  static async stackPanes(paneIds: string[]): Promise<ToolResponse> {
+  static async stackPanes(paneIds: string[], sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     if (!Array.isArray(paneIds) || paneIds.length === 0) {
       throw new ValidationError('Pane IDs array is required and cannot be empty');
     }
@@ -80,14 +100,15 @@ export class PaneTools {
     // Validate pane IDs
     const validatedIds: string[] = [];
     for (const id of paneIds) {
-      if (!/^(terminal_|plugin_)?\d+$/.test(id)) {
-        throw new ValidationError(`Invalid pane ID format: ${id}. Expected format: 'terminal_1', 'plugin_1', or '1'`);
+      const idValidation = Validator.validatePaneId(id);
+      if (!idValidation.valid) {
+        throw new ValidationError(idValidation.errors.join(', '));
       }
-      validatedIds.push(id);
+      validatedIds.push(idValidation.sanitized);
     }
 
     const idsString = validatedIds.join(' ');
-    const result = await execAsync(`zellij action stack-panes ${idsString}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['stack-panes', ...validatedIds] }));
 
     return {
       content: [{
@@ -100,8 +121,10 @@ export class PaneTools {
   /**
    * Toggle floating pane mode
    */
-  static async toggleFloating(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action toggle-floating-panes');
+  static async toggleFloating(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['toggle-floating-panes'] }));
 
     return {
       content: [{
@@ -114,8 +137,10 @@ export class PaneTools {
   /**
    * Toggle fullscreen mode
    */
-  static async toggleFullscreen(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action toggle-fullscreen');
+  static async toggleFullscreen(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['toggle-fullscreen'] });
 
     return {
       content: [{
@@ -128,8 +153,10 @@ export class PaneTools {
   /**
    * Toggle pane embed/floating
    */
-  static async togglePaneEmbedFloat(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action toggle-pane-embed-or-floating');
+  static async togglePaneEmbedFloat(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['toggle-pane-embed-or-floating'] }));
 
     return {
       content: [{
@@ -142,8 +169,10 @@ export class PaneTools {
   /**
    * Pin floating pane
    */
-  static async pinPane(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action toggle-pane-pinned');
+  static async pinPane(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['toggle-pane-pinned'] });
 
     return {
       content: [{
@@ -156,8 +185,10 @@ export class PaneTools {
   /**
    * Toggle pane frames
    */
-  static async toggleFrames(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action toggle-pane-frames');
+  static async toggleFrames(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['toggle-pane-frames'] });
 
     return {
       content: [{
@@ -170,13 +201,17 @@ export class PaneTools {
   /**
    * Clear pane buffer
    */
-  static async clearPane(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action clear');
+  static async clearPane(sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await this.withPaneFocus(paneId, session, restoreFocus, () =>
+      execZellij({ command: 'action', session, args: ['clear'] })
+    );
 
     return {
       content: [{
         type: 'text',
-        text: `Pane cleared${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
+        text: `Pane cleared${paneId ? `: ${paneId}` : ''}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
       }]
     };
   }
@@ -184,25 +219,31 @@ export class PaneTools {
   /**
    * Dump pane screen content to file
    */
-  static async dumpScreen(outputPath?: string): Promise<ToolResponse> {
-    let command = 'action dump-screen';
-    
-    if (outputPath) {
-      // Validate output path
-      if (outputPath.includes('..') || !outputPath.match(/^[\w\/\-\.]+$/)) {
-        throw new ValidationError('Invalid output path');
-      }
-      command += ` ${outputPath}`;
+  static async dumpScreen(outputPath?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    if (!outputPath) {
+      // dump-screen always needs a file; read the viewport through a temporary one
+      const screen = await this.captureScreen(session, undefined, { full: false });
+      return {
+        content: [{
+          type: 'text',
+          text: `Screen content:\n\n${screenLines(screen).join('\n')}`
+        }]
+      };
     }
 
-    const result = await execAsync(`zellij ${command}`);
+    // Validate output path
+    if (outputPath.includes('..') || !outputPath.match(/^[\w\/\-\.]+$/)) {
+      throw new ValidationError('Invalid output path');
+    }
+
+    const result = await execZellij({ command: 'action', session, args: ['dump-screen', outputPath] });
 
     return {
       content: [{
         type: 'text',
-        text: outputPath 
-          ? `Screen dumped to: ${outputPath}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
-          : `Screen content:\n\n${result.stdout}`
+        text: `Screen dumped to: ${outputPath}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
       }]
     };
   }
@@ -210,8 +251,10 @@ export class PaneTools {
   /**
    * Edit pane scrollback in editor
    */
-  static async editScrollback(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action edit-scrollback');
+  static async editScrollback(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['edit-scrollback'] });
 
     return {
       content: [{
@@ -224,19 +267,23 @@ export class PaneTools {
   /**
    * Rename current pane
    */
-  static async renamePane(name: string): Promise<ToolResponse> {
+  static async renamePane(name: string, sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate pane name
     const nameValidation = Validator.validateString(name, 'pane name', 64);
     if (!nameValidation.valid) {
       throw new ValidationError(`Invalid pane name: ${nameValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action rename-pane "${nameValidation.sanitized}"`);
+    const result = await this.withPaneFocus(paneId, session, restoreFocus, () =>
+      execZellij({ command: 'action', session, args: ['rename-pane', nameValidation.sanitized] })
+    );
 
     return {
       content: [{
         type: 'text',
-        text: `Pane renamed to: ${nameValidation.sanitized}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
+        text: `Pane ${paneId ? `${paneId} ` : ''}renamed to: ${nameValidation.sanitized}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
       }]
     };
   }
@@ -244,8 +291,10 @@ export class PaneTools {
   /**
    * Undo pane rename
    */
-  static async undoRenamePane(): Promise<ToolResponse> {
-    const result = await execAsync('zellij action undo-rename-pane');
+  static async undoRenamePane(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['undo-rename-pane'] });
 
     return {
       content: [{
@@ -258,8 +307,10 @@ export class PaneTools {
   /**
    * Enhanced move focus with validation
    */
-  static async moveFocus(direction: string): Promise<ToolResponse> {
-    let actionCommand: string;
+  static async moveFocus(direction: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    let actionArgs: string[];
     
     // Validate direction and map to correct command
     const dirValidation = Validator.validateDirection(direction);
@@ -269,16 +320,16 @@ export class PaneTools {
 
     switch (dirValidation.sanitized) {
       case 'next':
-        actionCommand = 'focus-next-pane';
+        actionArgs = ['focus-next-pane'];
         break;
       case 'previous':
-        actionCommand = 'focus-previous-pane';
+        actionArgs = ['focus-previous-pane'];
         break;
       default:
-        actionCommand = `move-focus ${dirValidation.sanitized}`;
+        actionArgs = ['move-focus', dirValidation.sanitized];
     }
 
-    const result = await execAsync(`zellij action ${actionCommand}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: actionArgs }));
 
     return {
       content: [{
@@ -291,7 +342,9 @@ export class PaneTools {
   /**
    * Move focus or tab (edge behavior)
    */
-  static async moveFocusOrTab(direction: string): Promise<ToolResponse> {
+  static async moveFocusOrTab(direction: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate direction
     const validDirections = ['left', 'right', 'up', 'down'];
     const dirValidation = Validator.validateDirection(direction);
@@ -299,7 +352,7 @@ export class PaneTools {
       throw new ValidationError(`Invalid direction: ${dirValidation.errors.join(', ')}. Must be one of: ${validDirections.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action move-focus-or-tab ${dirValidation.sanitized}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['move-focus-or-tab', dirValidation.sanitized] }));
 
     return {
       content: [{
@@ -312,7 +365,9 @@ export class PaneTools {
   /**
    * Scroll in pane
    */
-  static async scroll(direction: 'up' | 'down', amount: 'line' | 'half-page' | 'page' = 'line'): Promise<ToolResponse> {
+  static async scroll(direction: 'up' | 'down', amount: 'line' | 'half-page' | 'page' = 'line', sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     if (!['up', 'down'].includes(direction)) {
       throw new ValidationError('Direction must be "up" or "down"');
     }
@@ -334,7 +389,7 @@ export class PaneTools {
         actionCommand = direction === 'up' ? 'scroll-up' : 'scroll-down';
     }
 
-    const result = await execAsync(`zellij action ${actionCommand}`);
+    const result = await execZellij({ command: 'action', session, args: [actionCommand] });
 
     return {
       content: [{
@@ -347,13 +402,15 @@ export class PaneTools {
   /**
    * Scroll to top or bottom
    */
-  static async scrollToEdge(edge: 'top' | 'bottom'): Promise<ToolResponse> {
+  static async scrollToEdge(edge: 'top' | 'bottom', sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     if (!['top', 'bottom'].includes(edge)) {
       throw new ValidationError('Edge must be "top" or "bottom"');
     }
 
     const actionCommand = edge === 'top' ? 'scroll-to-top' : 'scroll-to-bottom';
-    const result = await execAsync(`zellij action ${actionCommand}`);
+    const result = await execZellij({ command: 'action', session, args: [actionCommand] });
 
     return {
       content: [{
@@ -366,22 +423,27 @@ export class PaneTools {
   /**
    * Execute command in current pane
    */
-  static async execInPane(command: string): Promise<ToolResponse> {
+  static async execInPane(command: string, sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate command
     const cmdValidation = Validator.validateCommand(command);
     if (!cmdValidation.valid) {
       throw new ValidationError(`Invalid command: ${cmdValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action write-chars "${cmdValidation.sanitized}"`);
-    
-    // Also send Enter to execute
-    await execAsync('zellij action write-chars "\\n"');
+    const result = await this.withPaneFocus(paneId, session, restoreFocus, async () => {
+      const written = await execZellij({ command: 'action', session, args: ['write-chars', '--', cmdValidation.sanitized] });
+
+      // Also send Enter to execute
+      await execZellij({ command: 'action', session, args: ['write', '13'] });
+      return written;
+    });
 
     return {
       content: [{
         type: 'text',
-        text: `Command executed in pane: ${cmdValidation.sanitized}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
+        text: `Command executed in pane${paneId ? ` ${paneId}` : ''}: ${cmdValidation.sanitized}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
       }]
     };
   }
@@ -389,56 +451,753 @@ export class PaneTools {
   /**
    * Write text to pane (enhanced with validation)
    */
-  static async writeToPane(text: string, submit: boolean = false): Promise<ToolResponse> {
+  static async writeToPane(text: string, submit: boolean = false, sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate text
     const textValidation = Validator.validateText(text);
     if (!textValidation.valid) {
       throw new ValidationError(`Invalid text: ${textValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action write-chars "${textValidation.sanitized}"`);
+    const result = await this.withPaneFocus(paneId, session, restoreFocus, async () => {
+      const written = await execZellij({ command: 'action', session, args: ['write-chars', '--', textValidation.sanitized] });
+
+      if (submit) {
+        // Send Enter to submit
+        await execZellij({ command: 'action', session, args: ['write', '13'] });
+      }
+      return written;
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Text written to pane${paneId ? ` ${paneId}` : ''}: ${textValidation.sanitized}${submit ? ' (submitted)' : ''}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
+      }]
+    };
+  }
+
+  /**
+   * Send named keys (e.g. "Ctrl-c", "Esc", "Up", "F5", "Alt-x") as raw bytes
+   */
+  static async sendKeys(keys: string[], sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new ValidationError('At least one key is required');
+    }
+    if (keys.length > 100) {
+      throw new ValidationError('Too many keys (max 100)');
+    }
+
+    const encoded = keys.map(key => ({ key, bytes: typeof key === 'string' ? encodeKey(key) : undefined }));
+    const unknown = encoded.filter(entry => !entry.bytes).map(entry => String(entry.key));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown key${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+    }
+
+    // One write per key so an Esc is not read as the start of the next key's sequence
+    await this.withPaneFocus(paneId, session, restoreFocus, async () => {
+      for (const { bytes } of encoded) {
+        await execZellij({ command: 'action', session, args: ['write', ...bytes!.map(String)] });
+      }
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Sent key${keys.length > 1 ? 's' : ''} to pane${paneId ? ` ${paneId}` : ''}: ${keys.join(' ')}`
+      }]
+    };
+  }
+
+  /**
+   * Close the focused pane, or a specific pane by id
+   */
+  static async closePane(sessionName?: string, paneId?: string, restoreFocus: boolean = false): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await this.withPaneFocus(paneId, session, restoreFocus, () =>
+      execZellij({ command: 'action', session, args: ['close-pane'] })
+    );
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Closed pane${paneId ? `: ${paneId}` : ''}`
+      }]
+    };
+  }
+
+  /**
+   * Focus a pane by its terminal_N / plugin_N id
+   */
+  static async focusPaneById(paneId: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const idValidation = Validator.validatePaneId(paneId);
+    if (!idValidation.valid) {
+      throw new ValidationError(idValidation.errors.join(', '));
+    }
+
+    await focusLock.runExclusive(async () => {
+      const focusedId = await this.attachedFocusedPaneId(idValidation.sanitized, session);
+      await this.focusPane(idValidation.sanitized, focusedId, session);
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Focused pane: ${idValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Run an action against a pane: with an id, focus it first and optionally
+   * restore the previous focus afterwards. Always serialized on the focus lock.
+   */
+  static async withPaneFocus<T>(paneId: string | undefined, session: string | undefined, restoreFocus: boolean, action: () => Promise<T>): Promise<T> {
+    if (!paneId) {
+      return focusLock.runExclusive(action);
+    }
+
+    const idValidation = Validator.validatePaneId(paneId);
+    if (!idValidation.valid) {
+      throw new ValidationError(idValidation.errors.join(', '));
+    }
+    const targetId: string = idValidation.sanitized;
+
+    return focusLock.runExclusive(async () => {
+      const focusedId = await this.attachedFocusedPaneId(targetId, session);
+      const previousId = restoreFocus ? focusedId : undefined;
+
+      await this.focusPane(targetId, focusedId, session);
+
+      try {
+        return await action();
+      } finally {
+        if (previousId && previousId !== targetId) {
+          try {
+            await this.focusPane(previousId, targetId, session);
+          } catch (e) {
+            // The action may have closed or moved panes; leave focus where it is
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Id of the pane focused by the first attached client, if any
+   */
+  private static async getFocusedPaneId(session?: string): Promise<string | undefined> {
+    const result = await execZellij({ command: 'action', session, args: ['list-clients'] });
+    return this.parseClientList(result.stdout)[0]?.paneId;
+  }
+
+  /**
+   * Focused pane id, checked before targeting another pane by id. Zellij
+   * only reports pane ids through an attached client, so panes in detached
+   * sessions, such as those started in the background, can't be targeted.
+   */
+  private static async attachedFocusedPaneId(paneId: string, session?: string): Promise<string> {
+    const focusedId = await this.getFocusedPaneId(session);
+    if (focusedId === undefined) {
+      throw new ValidationError(`pane_id ${paneId} needs a client attached to ${session ? `session ${session}` : 'the current session'}: Zellij only reports pane ids through an attached client, so panes in detached sessions can't be targeted by id. Attach to the session, or leave out pane_id to act on the focused pane`);
+    }
+    return focusedId;
+  }
+
+  /**
+   * Focus a pane by id, using the ids learned by resolvePaneIds and
+   * re-learning them once if they turn out to be stale.
+   * Callers must hold the focus lock.
+   */
+  private static async focusPane(paneId: string, currentId: string, session?: string): Promise<void> {
+    if (currentId === paneId) {
+      return;
+    }
+
+    for (const relearn of [false, true]) {
+      if (relearn) {
+        await this.resolvePaneIds(session);
+      }
+      const target = (await this.buildPanes(session)).find(pane => pane.id === paneId);
+      if (target && await this.cycleFocusTo(target, session)) {
+        return;
+      }
+    }
+
+    throw new ValidationError(`Pane not found: ${paneId}; see zellij_list_panes for current ids`);
+  }
+
+  /**
+   * Switch to the pane's tab and layer, then cycle focus until a client
+   * reports it. False if it never comes round.
+   */
+  private static async cycleFocusTo(target: ZellijPane, session?: string): Promise<boolean> {
+    const position = target.tabPosition ?? 0;
+    await execZellij({ command: 'action', session, args: ['go-to-tab', String(position + 1)] });
+
+    // Floating and tiled panes live on separate focus cycles
+    const tab = (await this.layoutTabs(session))[position];
+    const floating = Boolean(target.floating);
+    if (tab && tab.floatingPanesVisible !== floating) {
+      await execZellij({ command: 'action', session, args: ['toggle-floating-panes'] });
+    }
+
+    const candidates = tab ? tab.panes.filter(pane => pane.floating === floating).length : 0;
+    for (let attempt = 0; attempt <= candidates; attempt++) {
+      if (await this.getFocusedPaneId(session) === target.id) {
+        return true;
+      }
+      await execZellij({ command: 'action', session, args: ['focus-next-pane'] });
+    }
+    return false;
+  }
+
+  /**
+   * Read any pane's screen or full scrollback, optionally limited to a tail or line range
+   */
+  static async readPane(
+    options: {
+      sessionName?: string;
+      paneId?: string;
+      full?: boolean;
+      tailLines?: number;
+      startLine?: number;
+      endLine?: number;
+      ansi?: 'strip' | 'preserve';
+      joinWrapped?: boolean;
+      paneWidth?: number;
+      restoreFocus?: boolean;
+    } = {}
+  ): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+
+    for (const [field, value] of [['tail_lines', options.tailLines], ['start_line', options.startLine], ['end_line', options.endLine], ['pane_width', options.paneWidth]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new ValidationError(`${field} must be a positive integer`);
+      }
+    }
+
+    if (options.ansi !== undefined && options.ansi !== 'strip' && options.ansi !== 'preserve') {
+      throw new ValidationError('ansi must be one of: strip, preserve');
+    }
+    // Zellij doesn't report pane widths, and guessing one joins unrelated rows
+    if (options.joinWrapped && options.paneWidth === undefined) {
+      throw new ValidationError('join_wrapped needs pane_width, the width of the pane in columns');
+    }
+
+    const screen = await this.captureScreen(session, options.paneId, {
+      full: options.full ?? true,
+      restoreFocus: options.restoreFocus ?? true,
+      preserveAnsi: options.ansi === 'preserve'
+    });
+
+    const lines = screenLines(screen, options.joinWrapped ? options.paneWidth : undefined);
+
+    const selection = selectLines(lines, { tail: options.tailLines, startLine: options.startLine, endLine: options.endLine });
+    const header = selection.lines.length > 0
+      ? `Lines ${selection.startLine}-${selection.endLine} of ${selection.totalLines}${options.paneId ? ` in ${options.paneId}` : ''}`
+      : `No lines selected (${selection.totalLines} available)`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${header}\n\n${selection.lines.join('\n')}`
+      }]
+    };
+  }
+
+  /**
+   * Return only the lines a pane printed since the previous call for that pane.
+   * The last line is treated as still in progress: it is returned, but not
+   * consumed, so it comes back in its final form on the next read.
+   */
+  static async readNewOutput(
+    clientId: string,
+    options: { sessionName?: string; paneId?: string; reset?: boolean; maxLines?: number } = {}
+  ): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+
+    if (options.maxLines !== undefined && (!Number.isInteger(options.maxLines) || options.maxLines < 1)) {
+      throw new ValidationError('max_lines must be a positive integer');
+    }
+
+    let paneKey = 'focused';
+    if (options.paneId) {
+      const idValidation = Validator.validatePaneId(options.paneId);
+      if (!idValidation.valid) {
+        throw new ValidationError(idValidation.errors.join(', '));
+      }
+      paneKey = idValidation.sanitized;
+    }
+
+    let cursors = this.readCursors.get(clientId);
+    if (!cursors) {
+      cursors = new Map();
+      this.readCursors.set(clientId, cursors);
+    }
+    const key = `${session ?? ''}:${paneKey}`;
+    if (options.reset) {
+      cursors.delete(key);
+    }
 
-    if (submit) {
-      // Send Enter to submit
-      await execAsync('zellij action write-chars "\\n"');
+    const lines = screenLines(await this.captureScreen(session, options.paneId, { restoreFocus: true }));
+    const complete = lines.slice(0, -1);
+    const partial = lines.length > 0 ? lines[lines.length - 1] : '';
+
+    const cursor = cursors.get(key) ?? { position: 0, anchor: [], updatedAt: 0 };
+    const start = findAfterAnchor(complete, cursor.anchor);
+    const reset = start === undefined;
+
+    const fresh = complete.slice(start ?? 0);
+    cursor.position += fresh.length;
+    cursor.anchor = complete.slice(-this.CURSOR_ANCHOR_LINES);
+    cursor.updatedAt = Date.now();
+    cursors.set(key, cursor);
+
+    let output = partial ? [...fresh, partial] : fresh;
+    let skipped = 0;
+    if (options.maxLines !== undefined && output.length > options.maxLines) {
+      skipped = output.length - options.maxLines;
+      output = output.slice(-options.maxLines);
     }
 
+    const notes = [
+      reset ? 'previous position lost (pane cleared or scrolled out of the scrollback); returning everything' : '',
+      skipped > 0 ? `${skipped} earlier line(s) skipped` : ''
+    ].filter(Boolean);
+
     return {
       content: [{
         type: 'text',
-        text: `Text written to pane: ${textValidation.sanitized}${submit ? ' (submitted)' : ''}${result.stdout ? `\nOutput: ${result.stdout}` : ''}`
+        text: `${fresh.length} new line(s), cursor ${cursor.position}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}\n\n${output.join('\n')}`
+      }, {
+        type: 'text',
+        text: JSON.stringify({ cursor: cursor.position, newLines: fresh.length, partialLine: partial, reset, skipped }, null, 2)
       }]
     };
   }
 
   /**
-   * Get pane information (simulated - Zellij doesn't provide direct pane info)
+   * Drop a disconnected client's read cursors
    */
-  static async getPaneInfo(): Promise<ToolResponse> {
+  static forgetClient(clientId: string): void {
+    this.readCursors.delete(clientId);
+  }
+
+  /**
+   * Run a command in a pane and wait for it to finish (tool entry point)
+   */
+  static async runInPane(
+    command: string,
+    timeoutMs: number = 30000,
+    sessionName?: string,
+    paneId?: string,
+    shell: 'posix' | 'fish' = 'posix'
+  ): Promise<ToolResponse> {
+    const result = await this.runAndCapture(command, { timeoutMs, sessionName, paneId, shell });
+
+    const status = result.timedOut
+      ? `Timed out after ${timeoutMs}ms; sent Ctrl-C`
+      : `Exit code: ${result.exitCode}`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Command: ${result.command}\n${status}\nDuration: ${result.durationMs}ms\n\n${result.output || '(no output)'}`
+      }, {
+        type: 'text',
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Type a command wrapped in start/end sentinels, then poll the pane's
+   * scrollback until the end sentinel (carrying the exit code) shows up.
+   * On timeout the command is interrupted with Ctrl-C.
+   */
+  static async runAndCapture(
+    command: string,
+    options: { timeoutMs?: number; sessionName?: string; paneId?: string; shell?: 'posix' | 'fish' } = {}
+  ): Promise<PaneCommandResult> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+    const timeoutMs = options.timeoutMs ?? 30000;
+
+    const cmdValidation = Validator.validateCommand(command);
+    if (!cmdValidation.valid) {
+      throw new ValidationError(`Invalid command: ${cmdValidation.errors.join(', ')}`);
+    }
+
+    if (typeof timeoutMs !== 'number' || timeoutMs < 100 || timeoutMs > 3600000) {
+      throw new ValidationError('Timeout must be between 100ms and 1 hour');
+    }
+
+    const shell = options.shell ?? 'posix';
+    if (shell !== 'posix' && shell !== 'fish') {
+      throw new ValidationError('Shell must be one of: posix, fish');
+    }
+
+    // The typed line never contains the joined marker, so its echo can't match
+    const token = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const startMarker = `__ZMCP_START_${token}`;
+    const endPattern = new RegExp(`^__ZMCP_END_${token}_(\\d+)$`);
+    const status = shell === 'fish' ? '$status' : '$?';
+    const wrapped = `printf '%s_%s\\n' __ZMCP_START ${token}; ${cmdValidation.sanitized}; printf '%s_%s_%s\\n' __ZMCP_END ${token} ${status}`;
+
+    const startedAt = Date.now();
+
+    await this.withPaneFocus(options.paneId, session, false, async () => {
+      await execZellij({ command: 'action', session, args: ['write-chars', '--', wrapped] });
+      await execZellij({ command: 'action', session, args: ['write', '13'] });
+    });
+
+    const deadline = startedAt + timeoutMs;
+    let output = '';
+
+    while (true) {
+      const lines = screenLines(await this.captureScreen(session, options.paneId));
+      const start = lines.lastIndexOf(startMarker);
+
+      if (start !== -1) {
+        const body = lines.slice(start + 1);
+        const end = body.findIndex(line => endPattern.test(line));
+
+        if (end !== -1) {
+          const exitCode = parseInt(body[end].match(endPattern)![1], 10);
+          return this.commandResult(cmdValidation.sanitized, options.paneId, body.slice(0, end), exitCode, startedAt, false);
+        }
+        output = body.join('\n');
+      }
+
+      if (Date.now() >= deadline) {
+        await this.withPaneFocus(options.paneId, session, false, () =>
+          execZellij({ command: 'action', session, args: ['write', '3'] })
+        );
+        return this.commandResult(cmdValidation.sanitized, options.paneId, output.split('\n'), null, startedAt, true);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  private static commandResult(
+    command: string,
+    paneId: string | undefined,
+    lines: string[],
+    exitCode: number | null,
+    startedAt: number,
+    timedOut: boolean
+  ): PaneCommandResult {
+    // Drop the prompt redraw and padding Zellij leaves below the output
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines = lines.slice(0, -1);
+    }
+
+    const result: PaneCommandResult = {
+      command,
+      output: lines.join('\n'),
+      exitCode,
+      durationMs: Date.now() - startedAt,
+      timedOut
+    };
+    if (paneId) {
+      result.paneId = paneId;
+    }
+    return result;
+  }
+
+  /**
+   * Read a pane's screen as plain text; `full` includes the scrollback
+   */
+  static async captureScreen(
+    session?: string,
+    paneId?: string,
+    options: { full?: boolean; restoreFocus?: boolean; preserveAnsi?: boolean } = {}
+  ): Promise<string> {
+    const dumpPath = join(tmpdir(), `zellij-mcp-screen-${process.pid}-${++this.dumpCounter}.txt`);
+    const args = ['dump-screen', dumpPath];
+    if (options.full ?? true) {
+      args.push('--full');
+    }
+
+    await this.withPaneFocus(paneId, session, options.restoreFocus ?? false, () =>
+      execZellij({ command: 'action', session, args })
+    );
+
     try {
-      // Use dump-layout to get current pane structure
-      const result = await execAsync('zellij action dump-layout');
-      
-      return {
-        content: [{
-          type: 'text',
-          text: `Current Pane Layout Information:\n\n${result.stdout}\n\nNote: This shows the current layout structure. Individual pane details are not directly available from Zellij CLI.`
-        }]
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: 'text',
-          text: `Unable to retrieve pane information. Error: ${error instanceof Error ? error.message : String(error)}\n\nNote: Zellij doesn't provide direct pane querying capabilities via CLI.`
-        }]
-      };
+      // The server writes the dump asynchronously; give it a moment to land
+      for (let attempt = 0; attempt < 40 && !existsSync(dumpPath); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      if (!existsSync(dumpPath)) {
+        throw new ZellijError('dump-screen did not produce any output');
+      }
+
+      const screen = readFileSync(dumpPath, 'utf8');
+      return options.preserveAnsi ? screen : stripAnsi(screen);
+    } finally {
+      try {
+        unlinkSync(dumpPath);
+      } catch (e) {
+        // Nothing was written
+      }
+    }
+  }
+
+  /**
+   * Get pane information for every tab in the session
+   */
+  static async getPaneInfo(sessionName?: string): Promise<ToolResponse> {
+    return this.listPanes(sessionName);
+  }
+
+  /**
+   * List every pane across tabs with the terminal_N / plugin_N ids other tools
+   * accept. Learning the ids briefly cycles focus through the panes.
+   */
+  static async listPanes(sessionName?: string): Promise<ToolResponse> {
+    const panes = await this.getPanes(sessionName, true);
+
+    const lines: string[] = [];
+    let currentTab: number | undefined;
+
+    for (const pane of panes) {
+      if (pane.tabPosition !== currentTab) {
+        currentTab = pane.tabPosition;
+        lines.push(`Tab ${(pane.tabPosition ?? 0) + 1}: ${pane.tab}`);
+      }
+
+      const flags = [pane.focused ? 'focused' : '', pane.floating ? 'floating' : ''].filter(Boolean);
+      const details = [flags.length > 0 ? `[${flags.join(', ')}]` : '', pane.title ?? '', pane.cwd ? `(${pane.cwd})` : ''].filter(Boolean);
+      lines.push(`  ${[pane.id ?? '(no id)', ...details].join(' ')}`);
     }
+
+    if (panes.some(pane => !pane.id)) {
+      lines.push('', 'Panes without an id cannot be targeted: Zellij only reports ids for selectable panes, through an attached client.');
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: lines.length > 0 ? lines.join('\n') : 'No panes found.'
+      }, {
+        type: 'text',
+        text: JSON.stringify({ panes }, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Build pane records from the layout dump, tab names and client listing.
+   * Zellij numbers panes in creation order with gaps, so ids can't be
+   * inferred from the layout: a pane only gets an id once a client has
+   * reported it, either as its focused pane now or during the last
+   * resolvePaneIds run over the same layout. With `resolveIds`, focus is
+   * cycled through every pane first so all selectable panes get one.
+   */
+  static async getPanes(sessionName?: string, resolveIds: boolean = false): Promise<ZellijPane[]> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    if (resolveIds) {
+      await focusLock.runExclusive(() => this.resolvePaneIds(session));
+    }
+    return this.buildPanes(session);
+  }
+
+  private static async buildPanes(session?: string): Promise<ZellijPane[]> {
+    const tabs = await this.layoutTabs(session);
+
+    let tabNames: string[] = [];
+    try {
+      const result = await execZellij({ command: 'action', session, args: ['query-tab-names'] });
+      tabNames = result.stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    } catch (e) {
+      // Fall back to the names in the layout dump
+    }
+
+    let focusedId: string | undefined;
+    try {
+      focusedId = await this.getFocusedPaneId(session);
+    } catch (e) {
+      // Older Zellij versions have no list-clients; no ids can be confirmed
+    }
+
+    // Resolved ids only hold while panes haven't been opened, closed or moved
+    const key = this.resolvedIdsKey(session);
+    const signature = this.layoutSignature(tabs);
+    let resolved = this.resolvedIds.get(key);
+    if (resolved && resolved.signature !== signature) {
+      this.resolvedIds.delete(key);
+      resolved = undefined;
+    }
+
+    const focusedTab = tabs.find(tab => tab.focused);
+    const focusedKey = focusedTab ? this.focusedPaneKey(focusedTab) : undefined;
+    if (resolved && focusedId && focusedKey && resolved.ids.get(focusedKey) !== focusedId) {
+      // A pane was replaced by an identical-looking one
+      this.resolvedIds.delete(key);
+      resolved = undefined;
+    }
+
+    const panes: ZellijPane[] = [];
+    for (const tab of tabs) {
+      tab.panes.forEach((summary, index) => {
+        const paneKey = `${tab.position}:${index}`;
+        const commandLine = summary.command ? [summary.command, ...(summary.args ?? [])].join(' ') : undefined;
+
+        const pane: ZellijPane = {
+          title: summary.name ?? summary.plugin ?? commandLine,
+          focused: tab.focused && summary.focused && summary.floating === tab.floatingPanesVisible,
+          floating: summary.floating,
+          tab: tabNames[tab.position] ?? tab.name,
+          tabPosition: tab.position
+        };
+        const id = paneKey === focusedKey ? focusedId : resolved?.ids.get(paneKey);
+        if (id) {
+          pane.id = id;
+        }
+        if (summary.command) {
+          pane.command = summary.command;
+        }
+        if (summary.args) {
+          pane.args = summary.args;
+        }
+        if (summary.cwd) {
+          pane.cwd = summary.cwd;
+        }
+        if (summary.plugin) {
+          pane.plugin = summary.plugin;
+        }
+        panes.push(pane);
+      });
+    }
+
+    return panes;
+  }
+
+  /**
+   * Learn every selectable pane's id by cycling focus through each tab and
+   * layer, reading the focused pane from both the layout and list-clients.
+   * Each tab's focus and floating visibility are put back afterwards.
+   * Callers must hold the focus lock.
+   */
+  private static async resolvePaneIds(session?: string): Promise<void> {
+    const originalId = await this.getFocusedPaneId(session);
+    if (originalId === undefined) {
+      // Nothing reports ids without a client; panes stay unnumbered
+      return;
+    }
+
+    const tabs = await this.layoutTabs(session);
+    const ids = new Map<string, string>();
+
+    try {
+      for (const tab of tabs) {
+        await execZellij({ command: 'action', session, args: ['go-to-tab', String(tab.position + 1)] });
+
+        // Start on the visible layer so it's left as found
+        const layers = [tab.floatingPanesVisible, !tab.floatingPanesVisible];
+        for (const floating of layers) {
+          if (!tab.panes.some(pane => pane.floating === floating)) {
+            continue;
+          }
+          const toggled = floating !== tab.floatingPanesVisible;
+          if (toggled) {
+            await execZellij({ command: 'action', session, args: ['toggle-floating-panes'] });
+          }
+
+          // Plugin bars aren't selectable, so the cycle can be shorter than the layer
+          for (let step = 0; step < tab.panes.length; step++) {
+            const current = (await this.layoutTabs(session))[tab.position];
+            const index = current?.panes.findIndex(pane => pane.focused && pane.floating === floating) ?? -1;
+            const id = await this.getFocusedPaneId(session);
+            const paneKey = `${tab.position}:${index}`;
+            if (index === -1 || !id || ids.has(paneKey)) {
+              break;
+            }
+            ids.set(paneKey, id);
+            await execZellij({ command: 'action', session, args: ['focus-next-pane'] });
+          }
+
+          if (toggled) {
+            await execZellij({ command: 'action', session, args: ['toggle-floating-panes'] });
+          }
+        }
+      }
+    } finally {
+      const originalTab = tabs.find(tab => tab.focused);
+      if (originalTab) {
+        await execZellij({ command: 'action', session, args: ['go-to-tab', String(originalTab.position + 1)] });
+      }
+    }
+
+    this.resolvedIds.set(this.resolvedIdsKey(session), { signature: this.layoutSignature(tabs), ids });
+  }
+
+  /**
+   * Without a session, actions go to the one this server runs in
+   */
+  private static resolvedIdsKey(session?: string): string {
+    return session ?? process.env.ZELLIJ_SESSION_NAME ?? '';
+  }
+
+  private static async layoutTabs(session?: string): Promise<LayoutTabSummary[]> {
+    const result = await execZellij({ command: 'action', session, args: ['dump-layout'] });
+    return summarizeLayout(parseLayout(result.stdout, session ?? 'current'));
+  }
+
+  /**
+   * Position of the pane a client in this tab is focused on: the focused pane
+   * of whichever layer is visible
+   */
+  private static focusedPaneKey(tab: LayoutTabSummary): string | undefined {
+    const index = tab.panes.findIndex(pane => pane.focused && pane.floating === tab.floatingPanesVisible);
+    return index === -1 ? undefined : `${tab.position}:${index}`;
+  }
+
+  /**
+   * What identifies the pane arrangement: focus, names and cwds can change
+   * without any pane being opened or closed
+   */
+  private static layoutSignature(tabs: LayoutTabSummary[]): string {
+    return JSON.stringify(tabs.map(tab => tab.panes.map(pane => [pane.plugin, pane.command, pane.args, pane.floating])));
+  }
+
+  /**
+   * Parse `zellij action list-clients` output (CLIENT_ID ZELLIJ_PANE_ID RUNNING_COMMAND)
+   */
+  static parseClientList(output: string): ZellijClient[] {
+    const clients: ZellijClient[] = [];
+
+    for (const line of stripAnsi(output).split('\n')) {
+      const [id, paneId, ...command] = line.trim().split(/\s+/);
+      if (!id || !/^\d+$/.test(id) || !/^(terminal|plugin)_\d+$/.test(paneId ?? '')) {
+        continue;
+      }
+
+      const client: ZellijClient = { id, paneId };
+      if (command.length > 0 && command[0] !== 'N/A') {
+        client.command = command.join(' ');
+      }
+      clients.push(client);
+    }
+
+    return clients;
   }
 
   /**
    * Change floating pane coordinates
    */
-  static async changeFloatingCoordinates(x: number, y: number, width?: number, height?: number): Promise<ToolResponse> {
+  static async changeFloatingCoordinates(x: number, y: number, width?: number, height?: number, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate coordinates
     if (typeof x !== 'number' || typeof y !== 'number' || x < 0 || y < 0) {
       throw new ValidationError('X and Y coordinates must be non-negative numbers');
@@ -452,17 +1211,17 @@ export class PaneTools {
       throw new ValidationError('Height must be a positive number');
     }
 
-    let command = `action change-floating-pane-coordinates ${x} ${y}`;
+    const args = ['change-floating-pane-coordinates', String(x), String(y)];
     
     if (width !== undefined) {
-      command += ` ${width}`;
+      args.push(String(width));
     }
     
     if (height !== undefined && width !== undefined) {
-      command += ` ${height}`;
+      args.push(String(height));
     }
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await execZellij({ command: 'action', session, args });
 
     return {
       content: [{
@@ -471,4 +1230,584 @@ export class PaneTools {
       }]
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Resize the focused pane
+   */
+  static async resizePane(direction: string, amount: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const dirValidation = Validator.validateDirection(direction);
+    if (!dirValidation.valid) {
+      throw new ValidationError(`Invalid direction: ${dirValidation.errors.join(', ')}`);
+    }
+
+    const amountValidation = Validator.validateResizeAmount(amount);
+    if (!amountValidation.valid) {
+      throw new ValidationError(`Invalid amount: ${amountValidation.errors.join(', ')}`);
+    }
+
+    await execZellij({ command: 'action', session, args: ['resize', amountValidation.sanitized, dirValidation.sanitized] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Resized pane: ${amountValidation.sanitized} ${dirValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Run a command in a new pane
+   */
+  static async runCommand(command: string, direction?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const cmdValidation = Validator.validateCommand(command);
+    if (!cmdValidation.valid) {
+      throw new ValidationError(`Invalid command: ${cmdValidation.errors.join(', ')}`);
+    }
+
+    const args: string[] = [];
+    if (direction) {
+      const dirValidation = Validator.validateSplitDirection(direction);
+      if (!dirValidation.valid) {
+        throw new ValidationError(`Invalid direction: ${dirValidation.errors.join(', ')}`);
+      }
+      args.push('--direction', dirValidation.sanitized);
+    }
+    args.push('--', ...splitCommandLine(cmdValidation.sanitized));
+
+    await focusLock.runExclusive(() => execZellij({ command: 'run', session, args }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Running command in new pane: ${cmdValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Open a file in the default editor in a new pane
+   */
+  static async editFile(filePath: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const pathValidation = Validator.validateString(filePath, 'file path', 512);
+    if (!pathValidation.valid) {
+      throw new ValidationError(`Invalid file path: ${pathValidation.errors.join(', ')}`);
+    }
+
+    if (filePath.includes('..')) {
+      throw new ValidationError('File path cannot contain directory traversal (..)');
+    }
+
+    await focusLock.runExclusive(() => execZellij({ command: 'edit', session, args: [pathValidation.sanitized] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Editing file: ${pathValidation.sanitized}`
+      }]
+    };
+  }
+}
+
+export const PANE_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_new_pane',
+    description: 'Create a new pane with advanced options',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['right', 'down'], description: 'Direction to split' },
+        command: { type: 'string', description: 'Optional command to run in new pane' },
+        cwd: { type: 'string', description: 'Working directory for new pane' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+    },
+    handler: args => PaneTools.newPane(args.direction, args.command, args.cwd, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_close_pane',
+    description: 'Close the currently focused pane',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.closePane(args.session_name, args.pane_id, args.restore_focus)
+  }),
+  defineTool({
+    name: 'zellij_swap_panes',
+    description: 'Move/swap pane in specified direction',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['left', 'right', 'up', 'down'], description: 'Direction to move pane' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction'],
+    },
+    handler: args => PaneTools.swapPanes(args.direction, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_stack_panes',
+    description: 'Stack multiple panes by their IDs (see zellij_list_panes)',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pane_ids: { type: 'array', items: { type: 'string' }, description: 'Array of pane IDs to stack' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['pane_ids'],
+    },
+    handler: args => PaneTools.stackPanes(args.pane_ids, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_toggle_floating',
+    description: 'Toggle floating panes visibility',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.toggleFloating(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_toggle_fullscreen',
+    description: 'Toggle fullscreen mode for focused pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.toggleFullscreen(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_toggle_pane_embed_float',
+    description: 'Toggle between embedded and floating for focused pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.togglePaneEmbedFloat(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_pin_pane',
+    description: 'Pin/unpin floating pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.pinPane(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_toggle_frames',
+    description: 'Toggle pane frames visibility',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.toggleFrames(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_clear_pane',
+    description: 'Clear the focused pane buffer, or a specific pane by id',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.clearPane(args.session_name, args.pane_id, args.restore_focus)
+  }),
+  defineTool({
+    name: 'zellij_dump_screen',
+    description: 'Dump pane screen content to file or stdout',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_path: { type: 'string', description: 'Optional output file path' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+    },
+    handler: args => PaneTools.dumpScreen(args.output_path, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_read_pane',
+    description: 'Read a pane\'s screen or full scrollback as text, optionally only the last N lines or a line range',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pane_id: { type: 'string', description: 'Optional pane to read (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        full: { type: 'boolean', description: 'Include the full scrollback, not just the viewport (default: true)' },
+        tail_lines: { type: 'number', description: 'Only return the last N lines' },
+        start_line: { type: 'number', description: 'First line to return (1-based)' },
+        end_line: { type: 'number', description: 'Last line to return (inclusive)' },
+        ansi: { type: 'string', enum: ['strip', 'preserve'], description: 'Strip or keep ANSI escape sequences (default: strip)' },
+        join_wrapped: { type: 'boolean', description: 'Re-join lines the terminal soft-wrapped at the pane width (needs pane_width)' },
+        pane_width: { type: 'number', description: 'Width of the pane in columns, used by join_wrapped to spot rows that filled the pane' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previous pane after reading by pane_id (default: true)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.readPane({
+      sessionName: args.session_name,
+      paneId: args.pane_id,
+      full: args.full,
+      tailLines: args.tail_lines,
+      startLine: args.start_line,
+      endLine: args.end_line,
+      ansi: args.ansi,
+      joinWrapped: args.join_wrapped,
+      paneWidth: args.pane_width,
+      restoreFocus: args.restore_focus
+    })
+  }),
+  defineTool({
+    name: 'zellij_read_new_output',
+    description: 'Read only the lines a pane printed since the previous call (per-pane cursor kept by the server)',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pane_id: { type: 'string', description: 'Optional pane to read (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        reset: { type: 'boolean', description: 'Forget the stored cursor and return everything' },
+        max_lines: { type: 'number', description: 'Return at most this many of the newest lines' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: (args, context) => PaneTools.readNewOutput(context.clientId, {
+      sessionName: args.session_name,
+      paneId: args.pane_id,
+      reset: args.reset,
+      maxLines: args.max_lines
+    })
+  }),
+  defineTool({
+    name: 'zellij_edit_scrollback',
+    description: 'Edit pane scrollback in default editor',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.editScrollback(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_rename_pane',
+    description: 'Rename the focused pane, or a specific pane by id',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'New name for the pane' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: ['name'],
+    },
+    handler: args => PaneTools.renamePane(args.name, args.session_name, args.pane_id, args.restore_focus)
+  }),
+  defineTool({
+    name: 'zellij_undo_rename_pane',
+    description: 'Remove pane name (reset to default)',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.undoRenamePane(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_focus_pane',
+    description: 'Focus pane in specific direction',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['left', 'right', 'up', 'down', 'next', 'previous'], description: 'Direction to focus' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction'],
+    },
+    handler: args => PaneTools.moveFocus(args.direction, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_move_focus_or_tab',
+    description: 'Move focus to pane or tab (at screen edge)',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['left', 'right', 'up', 'down'], description: 'Direction to move' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction'],
+    },
+    handler: args => PaneTools.moveFocusOrTab(args.direction, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_resize_pane',
+    description: 'Resize the focused pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['left', 'right', 'up', 'down'], description: 'Direction to resize' },
+        amount: { type: 'string', enum: ['increase', 'decrease'], description: 'Whether to increase or decrease' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction', 'amount'],
+    },
+    handler: args => PaneTools.resizePane(args.direction, args.amount, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_scroll',
+    description: 'Scroll in focused pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['up', 'down'], description: 'Scroll direction' },
+        amount: { type: 'string', enum: ['line', 'half-page', 'page'], description: 'Scroll amount' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction'],
+    },
+    handler: args => PaneTools.scroll(args.direction, args.amount, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_scroll_to_edge',
+    description: 'Scroll to top or bottom of pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        edge: { type: 'string', enum: ['top', 'bottom'], description: 'Edge to scroll to' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['edge'],
+    },
+    handler: args => PaneTools.scrollToEdge(args.edge, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_exec_in_pane',
+    description: 'Execute command in the current pane, or a specific pane by id',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to execute' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: ['command'],
+    },
+    handler: args => PaneTools.execInPane(args.command, args.session_name, args.pane_id, args.restore_focus)
+  }),
+  defineTool({
+    name: 'zellij_run_in_pane',
+    description: 'Run a command in a pane and wait for it to finish; returns its output, exit code and duration',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to run' },
+        timeout_ms: { type: 'number', description: 'Give up and send Ctrl-C after this many milliseconds (default: 30000)' },
+        pane_id: { type: 'string', description: 'Optional pane to run in (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        shell: { type: 'string', enum: ['posix', 'fish'], description: 'Shell syntax used for the exit code marker (default: posix)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['command'],
+    },
+    handler: args => PaneTools.runInPane(
+      args.command,
+      args.timeout_ms,
+      args.session_name,
+      args.pane_id,
+      args.shell
+    )
+  }),
+  defineTool({
+    name: 'zellij_write_to_pane',
+    description: 'Write text to the current pane, or a specific pane by id',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text to write' },
+        submit: { type: 'boolean', description: 'Whether to submit (press Enter)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: ['text'],
+    },
+    handler: args => PaneTools.writeToPane(
+      args.text,
+      args.submit,
+      args.session_name,
+      args.pane_id,
+      args.restore_focus
+    )
+  }),
+  defineTool({
+    name: 'zellij_send_keys',
+    description: 'Send named keys or control sequences to a pane, e.g. ["Ctrl-c"], ["Esc", ":", "q", "Enter"], ["Up"], ["Shift-Tab"], ["F5"], ["Alt-x"]',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Keys to press in order: Enter, Tab, Esc, Backspace, Space, Up/Down/Left/Right, Home, End, PageUp, PageDown, Insert, Delete, F1-F12 or a single character, optionally prefixed with Ctrl-, Alt- and/or Shift-',
+        },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+        pane_id: { type: 'string', description: 'Optional pane to target (terminal_N or plugin_N, see zellij_list_panes; needs an attached client); focused first' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previously focused pane afterwards (with pane_id)' },
+      },
+      required: ['keys'],
+    },
+    handler: args => PaneTools.sendKeys(
+      args.keys,
+      args.session_name,
+      args.pane_id,
+      args.restore_focus
+    )
+  }),
+  defineTool({
+    name: 'zellij_get_pane_info',
+    description: 'Get information about every pane in the session (same as zellij_list_panes)',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.getPaneInfo(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_list_panes',
+    description: 'List every pane across tabs with terminal_N/plugin_N ids, titles, commands, cwd and focus. Learning the ids briefly cycles focus through the panes and needs an attached client; panes in detached sessions are listed without ids',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => PaneTools.listPanes(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_focus_pane_id',
+    description: 'Focus a pane by its terminal_N/plugin_N id, switching tabs if needed. Needs a client attached to the session: Zellij reports pane ids only through one, so detached sessions can\'t be targeted',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pane_id: { type: 'string', description: 'Pane id from zellij_list_panes (needs an attached client)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['pane_id'],
+    },
+    handler: args => PaneTools.focusPaneById(args.pane_id, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_change_floating_coordinates',
+    description: 'Change floating pane position and size',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        x: { type: 'number', description: 'X coordinate' },
+        y: { type: 'number', description: 'Y coordinate' },
+        width: { type: 'number', description: 'Optional width' },
+        height: { type: 'number', description: 'Optional height' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['x', 'y'],
+    },
+    handler: args => PaneTools.changeFloatingCoordinates(
+      args.x,
+      args.y,
+      args.width,
+      args.height,
+      args.session_name
+    )
+  }),
+  defineTool({
+    name: 'zellij_run_command',
+    description: 'Run command in new pane',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to run' },
+        direction: { type: 'string', enum: ['right', 'down'], description: 'Optional split direction' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['command'],
+    },
+    handler: args => PaneTools.runCommand(args.command, args.direction, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_edit_file',
+    description: 'Edit file in new Zellij pane',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to file to edit' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['file_path'],
+    },
+    handler: args => PaneTools.editFile(args.file_path, args.session_name)
+  }),
+];
@@ -1,6 +1,8 @@
-import { execAsync } from '../utils/command.js';
+import { execZellij } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
+import { defineTool, ToolDefinition, UPDATES } from '../registry.js';
 import { ToolResponse, PipeOptions, ValidationError } from '../types/zellij.js';
+import { readFileSync } from 'fs';
 
 export class PipingTools {
   
@@ -31,14 +33,14 @@ export class PipingTools {
     }
 
     // Build command
-    let command = 'pipe';
+    const args: string[] = [];
     
     if (options.name) {
-      command += ` --name "${options.name}"`;
+      args.push('--name', options.name);
     }
     
     if (options.plugin) {
-      command += ` --plugin "${options.plugin}"`;
+      args.push('--plugin', options.plugin);
     }
     
     if (options.args) {
@@ -46,21 +48,21 @@ export class PipingTools {
       if (!argsValidation.valid) {
         throw new ValidationError(`Invalid pipe args: ${argsValidation.errors.join(', ')}`);
       }
-      command += ` --args "${options.args}"`;
+      args.push('--args', options.args);
     }
     
     if (options.configuration) {
       try {
         const configJson = JSON.stringify(options.configuration);
-        command += ` --plugin-configuration '${configJson}'`;
+        args.push('--plugin-configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
     }
 
-    command += ` -- "${payload}"`;
+    args.push('--', payload);
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await execZellij({ command: 'pipe', args });
     
     return {
       content: [{
@@ -73,7 +75,7 @@ export class PipingTools {
   /**
    * Send data to a specific plugin
    */
-  static async pipeToPlugin(payload: string, pluginUrl: string, pipeName?: string, configuration?: Record<string, any>): Promise<ToolResponse> {
+  static async pipeToPlugin(payload: string, pluginUrl: string, pipeName?: string, configuration?: Record<string, unknown>): Promise<ToolResponse> {
     return this.pipe(payload, {
       plugin: pluginUrl,
       name: pipeName,
@@ -106,19 +108,22 @@ export class PipingTools {
       }
     }
 
+    // Validate target session if provided
+    const session = Validator.validateSessionTarget(options.session);
+
     // Build action pipe command
-    let command = 'action pipe';
+    const args = ['pipe'];
     
     if (options.name) {
       const nameValidation = Validator.validateString(options.name, 'pipe name', 64);
       if (!nameValidation.valid) {
         throw new ValidationError(`Invalid pipe name: ${nameValidation.errors.join(', ')}`);
       }
-      command += ` --name "${options.name}"`;
+      args.push('--name', options.name);
     }
     
     if (options.plugin) {
-      command += ` --plugin "${options.plugin}"`;
+      args.push('--plugin', options.plugin);
     }
     
     if (options.args) {
@@ -126,32 +131,32 @@ export class PipingTools {
       if (!argsValidation.valid) {
         throw new ValidationError(`Invalid pipe args: ${argsValidation.errors.join(', ')}`);
       }
-      command += ` --args "${options.args}"`;
+      args.push('--args', options.args);
     }
     
     if (options.configuration) {
       try {
         const configJson = JSON.stringify(options.configuration);
-        command += ` --plugin-configuration '${configJson}'`;
+        args.push('--plugin-configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
     }
     
     if (options.forceLaunch) {
-      command += ' --force-launch-plugin';
+      args.push('--force-launch-plugin');
     }
     
     if (options.skipCache) {
-      command += ' --skip-plugin-cache';
+      args.push('--skip-plugin-cache');
     }
     
     if (options.floating !== undefined) {
-      command += ` --floating-plugin ${options.floating}`;
+      args.push('--floating-plugin', String(options.floating));
     }
     
     if (options.inPlace !== undefined) {
-      command += ` --in-place-plugin ${options.inPlace}`;
+      args.push('--in-place-plugin', String(options.inPlace));
     }
     
     if (options.cwd) {
@@ -159,7 +164,7 @@ export class PipingTools {
       if (!cwdValidation.valid) {
         throw new ValidationError(`Invalid working directory: ${cwdValidation.errors.join(', ')}`);
       }
-      command += ` --plugin-cwd "${options.cwd}"`;
+      args.push('--plugin-cwd', options.cwd);
     }
     
     if (options.title) {
@@ -167,12 +172,12 @@ export class PipingTools {
       if (!titleValidation.valid) {
         throw new ValidationError(`Invalid plugin title: ${titleValidation.errors.join(', ')}`);
       }
-      command += ` --plugin-title "${options.title}"`;
+      args.push('--plugin-title', options.title);
     }
 
-    command += ` -- "${payload}"`;
+    args.push('--', payload);
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await execZellij({ command: 'action', session, args });
     
     return {
       content: [{
@@ -215,17 +220,25 @@ export class PipingTools {
       throw new ValidationError('Invalid file path');
     }
 
-    let command = `cat "${filePath}" | zellij pipe`;
+    const args: string[] = [];
     
     if (options.name) {
-      command += ` --name "${options.name}"`;
+      args.push('--name', options.name);
     }
     
     if (options.plugin) {
-      command += ` --plugin "${options.plugin}"`;
+      args.push('--plugin', options.plugin);
+    }
+
+    // Feed the file to `zellij pipe` on stdin
+    let input: string;
+    try {
+      input = readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new ValidationError(`Failed to read file: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    const result = await execAsync(command);
+    const result = await execZellij({ command: 'pipe', args, input });
     
     return {
       content: [{
@@ -234,4 +247,132 @@ export class PipingTools {
       }]
     };
   }
-}
\ No newline at end of file
+}
+
+export const PIPING_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_pipe',
+    description: 'Send data to plugins via pipe with advanced options',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        payload: { type: 'string', description: 'Data to send through pipe' },
+        pipe_name: { type: 'string', description: 'Name of the pipe' },
+        plugin_url: { type: 'string', description: 'Optional specific plugin URL' },
+        args: { type: 'string', description: 'Optional pipe arguments' },
+        configuration: { type: 'object', description: 'Optional plugin configuration' },
+      },
+      required: ['payload'],
+    },
+    handler: args => PipingTools.pipe(args.payload, {
+      name: args.pipe_name,
+      plugin: args.plugin_url,
+      args: args.args,
+      configuration: args.configuration,
+    })
+  }),
+  defineTool({
+    name: 'zellij_pipe_to_plugin',
+    description: 'Send data to a specific plugin',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        payload: { type: 'string', description: 'Data to send' },
+        plugin_url: { type: 'string', description: 'Plugin URL' },
+        pipe_name: { type: 'string', description: 'Optional pipe name' },
+        configuration: { type: 'object', description: 'Optional plugin configuration' },
+      },
+      required: ['payload', 'plugin_url'],
+    },
+    handler: args => PipingTools.pipeToPlugin(
+      args.payload,
+      args.plugin_url,
+      args.pipe_name,
+      args.configuration
+    )
+  }),
+  defineTool({
+    name: 'zellij_pipe_broadcast',
+    description: 'Broadcast data to all listening plugins',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        payload: { type: 'string', description: 'Data to broadcast' },
+        pipe_name: { type: 'string', description: 'Pipe name for broadcast' },
+      },
+      required: ['payload', 'pipe_name'],
+    },
+    handler: args => PipingTools.pipeBroadcast(args.payload, args.pipe_name)
+  }),
+  defineTool({
+    name: 'zellij_action_pipe',
+    description: 'Advanced piping with action-level options',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        payload: { type: 'string', description: 'Data to send' },
+        pipe_name: { type: 'string', description: 'Pipe name' },
+        plugin_url: { type: 'string', description: 'Optional plugin URL' },
+        force_launch: { type: 'boolean', description: 'Force launch plugin if not running' },
+        skip_cache: { type: 'boolean', description: 'Skip plugin cache' },
+        floating: { type: 'boolean', description: 'Launch as floating plugin' },
+        in_place: { type: 'boolean', description: 'Launch in-place' },
+        cwd: { type: 'string', description: 'Working directory for plugin' },
+        title: { type: 'string', description: 'Plugin pane title' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['payload'],
+    },
+    handler: args => PipingTools.actionPipe(args.payload, {
+      name: args.pipe_name,
+      plugin: args.plugin_url,
+      forceLaunch: args.force_launch,
+      skipCache: args.skip_cache,
+      floating: args.floating,
+      inPlace: args.in_place,
+      cwd: args.cwd,
+      title: args.title,
+      session: args.session_name,
+    })
+  }),
+  defineTool({
+    name: 'zellij_pipe_with_response',
+    description: 'Send data and capture plugin response',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        payload: { type: 'string', description: 'Data to send' },
+        pipe_name: { type: 'string', description: 'Pipe name' },
+        plugin_url: { type: 'string', description: 'Optional plugin URL' },
+      },
+      required: ['payload'],
+    },
+    handler: args => PipingTools.pipeWithResponse(args.payload, {
+      name: args.pipe_name,
+      plugin: args.plugin_url,
+    })
+  }),
+  defineTool({
+    name: 'zellij_pipe_from_file',
+    description: 'Pipe file content to plugins',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to file to pipe' },
+        pipe_name: { type: 'string', description: 'Pipe name' },
+        plugin_url: { type: 'string', description: 'Optional plugin URL' },
+      },
+      required: ['file_path'],
+    },
+    handler: args => PipingTools.pipeFromFile(args.file_path, {
+      name: args.pipe_name,
+      plugin: args.plugin_url,
+    })
+  }),
+];
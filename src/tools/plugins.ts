@@ -1,6 +1,8 @@
-import { execAsync } from '../utils/command.js';
+import { execZellij } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
 import { cache } from '../utils/cache.js';
+import { focusLock } from '../utils/mutex.js';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES } from '../registry.js';
 import { ToolResponse, PluginLaunchOptions, ValidationError, ZellijPlugin } from '../types/zellij.js';
 
 export class PluginTools {
@@ -15,13 +17,13 @@ export class PluginTools {
       throw new ValidationError(`Invalid plugin URL: ${urlValidation.errors.join(', ')}`);
     }
 
-    let command = `plugin "${options.url}"`;
+    const args = [options.url];
 
     // Add configuration if provided
     if (options.configuration) {
       try {
         const configJson = JSON.stringify(options.configuration);
-        command += ` --configuration '${configJson}'`;
+        args.push('--configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
@@ -29,15 +31,15 @@ export class PluginTools {
 
     // Add layout options
     if (options.floating) {
-      command += ' --floating';
+      args.push('--floating');
     }
 
     if (options.inPlace) {
-      command += ' --in-place';
+      args.push('--in-place');
     }
 
     if (options.skipCache) {
-      command += ' --skip-plugin-cache';
+      args.push('--skip-plugin-cache');
     }
 
     // Floating window options
@@ -46,7 +48,7 @@ export class PluginTools {
       if (!widthValidation.valid) {
         throw new ValidationError(`Invalid width: ${widthValidation.errors.join(', ')}`);
       }
-      command += ` --width ${options.width}`;
+      args.push('--width', options.width);
     }
 
     if (options.height) {
@@ -54,7 +56,7 @@ export class PluginTools {
       if (!heightValidation.valid) {
         throw new ValidationError(`Invalid height: ${heightValidation.errors.join(', ')}`);
       }
-      command += ` --height ${options.height}`;
+      args.push('--height', options.height);
     }
 
     if (options.x) {
@@ -62,7 +64,7 @@ export class PluginTools {
       if (!xValidation.valid) {
         throw new ValidationError(`Invalid x position: ${xValidation.errors.join(', ')}`);
       }
-      command += ` --x ${options.x}`;
+      args.push('--x', options.x);
     }
 
     if (options.y) {
@@ -70,17 +72,17 @@ export class PluginTools {
       if (!yValidation.valid) {
         throw new ValidationError(`Invalid y position: ${yValidation.errors.join(', ')}`);
       }
-      command += ` --y ${options.y}`;
+      args.push('--y', options.y);
     }
 
     if (options.pinned) {
-      command += ' --pinned true';
+      args.push('--pinned', 'true');
     }
 
     // Clear plugin cache for this URL
     cache.delete(`plugins_list`);
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'plugin', args }));
 
     return {
       content: [{
@@ -94,44 +96,47 @@ export class PluginTools {
    * Launch plugin with action command (more options)
    */
   static async actionLaunchPlugin(url: string, options: {
-    configuration?: Record<string, any>;
+    configuration?: Record<string, unknown>;
     floating?: boolean;
     inPlace?: boolean;
     skipCache?: boolean;
+    session?: string;
   } = {}): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.session);
+
     // Validate plugin URL
     const urlValidation = Validator.validatePluginUrl(url);
     if (!urlValidation.valid) {
       throw new ValidationError(`Invalid plugin URL: ${urlValidation.errors.join(', ')}`);
     }
 
-    let command = `action launch-plugin "${url}"`;
+    const args = ['launch-plugin', url];
 
     if (options.configuration) {
       try {
         const configJson = JSON.stringify(options.configuration);
-        command += ` --configuration '${configJson}'`;
+        args.push('--configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
     }
 
     if (options.floating) {
-      command += ' --floating';
+      args.push('--floating');
     }
 
     if (options.inPlace) {
-      command += ' --in-place';
+      args.push('--in-place');
     }
 
     if (options.skipCache) {
-      command += ' --skip-plugin-cache';
+      args.push('--skip-plugin-cache');
     }
 
     // Clear plugin cache
     cache.delete(`plugins_list`);
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
 
     return {
       content: [{
@@ -144,25 +149,27 @@ export class PluginTools {
   /**
    * Launch or focus plugin (smart activation)
    */
-  static async launchOrFocusPlugin(url: string, configuration?: Record<string, any>): Promise<ToolResponse> {
+  static async launchOrFocusPlugin(url: string, configuration?: Record<string, unknown>, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate plugin URL
     const urlValidation = Validator.validatePluginUrl(url);
     if (!urlValidation.valid) {
       throw new ValidationError(`Invalid plugin URL: ${urlValidation.errors.join(', ')}`);
     }
 
-    let command = `action launch-or-focus-plugin "${url}"`;
+    const args = ['launch-or-focus-plugin', url];
 
     if (configuration) {
       try {
         const configJson = JSON.stringify(configuration);
-        command += ` --configuration '${configJson}'`;
+        args.push('--configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
     }
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
 
     return {
       content: [{
@@ -175,19 +182,21 @@ export class PluginTools {
   /**
    * Start or reload plugin
    */
-  static async startOrReloadPlugin(url: string, configuration?: Record<string, any>): Promise<ToolResponse> {
+  static async startOrReloadPlugin(url: string, configuration?: Record<string, unknown>, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
     // Validate plugin URL
     const urlValidation = Validator.validatePluginUrl(url);
     if (!urlValidation.valid) {
       throw new ValidationError(`Invalid plugin URL: ${urlValidation.errors.join(', ')}`);
     }
 
-    let command = `action start-or-reload-plugin "${url}"`;
+    const args = ['start-or-reload-plugin', url];
 
     if (configuration) {
       try {
         const configJson = JSON.stringify(configuration);
-        command += ` --configuration '${configJson}'`;
+        args.push('--configuration', configJson);
       } catch (e) {
         throw new ValidationError('Invalid plugin configuration: must be valid JSON');
       }
@@ -196,7 +205,7 @@ export class PluginTools {
     // Clear plugin cache
     cache.delete(`plugins_list`);
 
-    const result = await execAsync(`zellij ${command}`);
+    const result = await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
 
     return {
       content: [{
@@ -222,7 +231,7 @@ export class PluginTools {
       };
     }
 
-    const result = await execAsync('zellij list-aliases');
+    const result = await execZellij({ command: 'list-aliases', args: [] });
     
     const output = result.stdout || 'No plugin aliases found.';
     
@@ -320,4 +329,129 @@ Recommendations:
       }]
     };
   }
-}
\ No newline at end of file
+}
+
+export const PLUGIN_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_launch_plugin',
+    description: 'Launch a plugin with full configuration options',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        plugin_url: { type: 'string', description: 'Plugin URL (file:, http:, https:, or zellij:)' },
+        configuration: { type: 'object', description: 'Plugin configuration' },
+        floating: { type: 'boolean', description: 'Launch as floating pane' },
+        in_place: { type: 'boolean', description: 'Launch in-place (suspend current pane)' },
+        skip_cache: { type: 'boolean', description: 'Skip plugin cache' },
+        width: { type: 'string', description: 'Floating pane width (e.g. "50%", "100")' },
+        height: { type: 'string', description: 'Floating pane height' },
+        x: { type: 'string', description: 'Floating pane X position' },
+        y: { type: 'string', description: 'Floating pane Y position' },
+        pinned: { type: 'boolean', description: 'Pin floating pane on top' },
+      },
+      required: ['plugin_url'],
+    },
+    handler: args => PluginTools.launchPlugin({
+      url: args.plugin_url,
+      configuration: args.configuration,
+      floating: args.floating,
+      inPlace: args.in_place,
+      skipCache: args.skip_cache,
+      width: args.width,
+      height: args.height,
+      x: args.x,
+      y: args.y,
+      pinned: args.pinned,
+    })
+  }),
+  defineTool({
+    name: 'zellij_action_launch_plugin',
+    description: 'Launch plugin using action command',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        plugin_url: { type: 'string', description: 'Plugin URL' },
+        configuration: { type: 'object', description: 'Plugin configuration' },
+        floating: { type: 'boolean', description: 'Launch as floating' },
+        in_place: { type: 'boolean', description: 'Launch in-place' },
+        skip_cache: { type: 'boolean', description: 'Skip plugin cache' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['plugin_url'],
+    },
+    handler: args => PluginTools.actionLaunchPlugin(args.plugin_url, {
+      configuration: args.configuration,
+      floating: args.floating,
+      inPlace: args.in_place,
+      skipCache: args.skip_cache,
+      session: args.session_name,
+    })
+  }),
+  defineTool({
+    name: 'zellij_launch_or_focus_plugin',
+    description: 'Smart plugin activation - launch or focus if already running',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        plugin_url: { type: 'string', description: 'Plugin URL' },
+        configuration: { type: 'object', description: 'Plugin configuration' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['plugin_url'],
+    },
+    handler: args => PluginTools.launchOrFocusPlugin(args.plugin_url, args.configuration, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_start_or_reload_plugin',
+    description: 'Start or reload a plugin',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        plugin_url: { type: 'string', description: 'Plugin URL' },
+        configuration: { type: 'object', description: 'Plugin configuration' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['plugin_url'],
+    },
+    handler: args => PluginTools.startOrReloadPlugin(args.plugin_url, args.configuration, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_list_aliases',
+    description: 'List available plugin aliases',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => PluginTools.listAliases()
+  }),
+  defineTool({
+    name: 'zellij_get_plugin_info',
+    description: 'Get information about a plugin',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        plugin_url: { type: 'string', description: 'Plugin URL' },
+      },
+      required: ['plugin_url'],
+    },
+    handler: args => PluginTools.getPluginInfo(args.plugin_url)
+  }),
+  defineTool({
+    name: 'zellij_list_running_plugins',
+    description: 'List currently running plugins',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => PluginTools.listRunningPlugins()
+  }),
+];
@@ -0,0 +1,270 @@
+import { execZellij } from '../utils/command.js';
+import { Validator } from '../utils/validator.js';
+import { screenLines, replResponse } from '../utils/screen.js';
+import { PaneTools } from './panes.js';
+import { defineTool, ToolDefinition, UPDATES, RUNS_COMMANDS } from '../registry.js';
+import { ToolResponse, ValidationError, ReplExchange } from '../types/zellij.js';
+
+// Prompt regexes for common shells and REPLs, matched against the pane's last line
+const PROMPT_PRESETS: Record<string, string> = {
+  bash: '[$#]\\s*$',
+  zsh: '[%#$]\\s*$',
+  fish: '>\\s*$',
+  python: '^(>>>|\\.\\.\\.)\\s*$',
+  ipython: '^In \\[\\d+\\]:\\s*$',
+  node: '^>\\s*$',
+  psql: '^[\\w-]*[=\\-(\'"][#>]\\s*$',
+  mysql: '^(mysql|MariaDB \\[[^\\]]*\\])>\\s*$',
+  sqlite: '^sqlite>\\s*$',
+  irb: '^irb\\([^)]*\\):\\d+(:\\d+)?[>*]\\s*$',
+  redis: '^[\\w.:-]+(\\[\\d+\\])?>\\s*$',
+  ghci: '^(ghci|Prelude[^>]*)>\\s*$',
+  llm: '^(>|❯|│ >)\\s*$'
+};
+
+interface ReplRegistration {
+  prompt: RegExp;
+  source: string; // Preset name or "custom"
+}
+
+export class ReplTools {
+  // Client -> session:pane -> prompt; clients don't see each other's registrations
+  private static registrations = new Map<string, Map<string, ReplRegistration>>();
+
+  /**
+   * Built-in prompt presets by name
+   */
+  static presets(): Record<string, string> {
+    return { ...PROMPT_PRESETS };
+  }
+
+  /**
+   * Register the prompt regex that marks a pane as ready for input
+   */
+  static async registerPrompt(clientId: string, options: { sessionName?: string; paneId?: string; preset?: string; prompt?: string }): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+    const registration = this.resolvePrompt(options.preset, options.prompt);
+    if (!registration) {
+      throw new ValidationError('Either a preset or a prompt regex is required');
+    }
+
+    let registrations = this.registrations.get(clientId);
+    if (!registrations) {
+      registrations = new Map();
+      this.registrations.set(clientId, registrations);
+    }
+    registrations.set(this.paneKey(session, options.paneId), registration);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Prompt registered for ${options.paneId ?? 'the focused pane'}: /${registration.prompt.source}/ (${registration.source})`
+      }]
+    };
+  }
+
+  /**
+   * Send input to a REPL and return the text between the input echo and the next prompt
+   */
+  static async send(
+    clientId: string,
+    input: string,
+    options: {
+      sessionName?: string;
+      paneId?: string;
+      preset?: string;
+      prompt?: string;
+      timeoutMs?: number;
+      restoreFocus?: boolean;
+    } = {}
+  ): Promise<ToolResponse> {
+    const exchange = await this.exchange(clientId, input, options);
+
+    const status = exchange.timedOut
+      ? `Prompt did not return within ${exchange.durationMs}ms; partial response below`
+      : `Response after ${exchange.durationMs}ms`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${status}\n\n${exchange.response || '(no output)'}`
+      }, {
+        type: 'text',
+        text: JSON.stringify(exchange, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Type input, press Enter and poll the pane until its prompt reappears
+   */
+  static async exchange(
+    clientId: string,
+    input: string,
+    options: {
+      sessionName?: string;
+      paneId?: string;
+      preset?: string;
+      prompt?: string;
+      timeoutMs?: number;
+      restoreFocus?: boolean;
+    } = {}
+  ): Promise<ReplExchange> {
+    const session = Validator.validateSessionTarget(options.sessionName);
+    const timeoutMs = options.timeoutMs ?? 30000;
+
+    const textValidation = Validator.validateText(input);
+    if (!textValidation.valid) {
+      throw new ValidationError(`Invalid input: ${textValidation.errors.join(', ')}`);
+    }
+
+    if (typeof timeoutMs !== 'number' || timeoutMs < 100 || timeoutMs > 3600000) {
+      throw new ValidationError('Timeout must be between 100ms and 1 hour');
+    }
+
+    const registration = this.resolvePrompt(options.preset, options.prompt)
+      ?? this.registrations.get(clientId)?.get(this.paneKey(session, options.paneId));
+    if (!registration) {
+      throw new ValidationError('No prompt registered for this pane; register one first or pass a preset or prompt');
+    }
+
+    const capture = async () => screenLines(
+      await PaneTools.captureScreen(session, options.paneId, { restoreFocus: options.restoreFocus ?? false })
+    );
+
+    // Everything up to the current prompt line is history
+    const anchor = (await capture()).slice(0, -1).slice(-5);
+    const echoText = textValidation.sanitized.split('\n').pop()!.trim();
+
+    const startedAt = Date.now();
+    await PaneTools.withPaneFocus(options.paneId, session, options.restoreFocus ?? false, async () => {
+      await execZellij({ command: 'action', session, args: ['write-chars', '--', textValidation.sanitized] });
+      await execZellij({ command: 'action', session, args: ['write', '13'] });
+    });
+
+    let response: string[] = [];
+
+    while (true) {
+      // The echo is the (last line of the) input, possibly soft-wrapped over several rows
+      const seen = replResponse(await capture(), anchor, echoText, registration.prompt);
+      if (seen?.prompt !== undefined) {
+        return this.exchangeResult(input, seen.lines, seen.prompt, startedAt, false);
+      }
+      if (seen) {
+        response = seen.lines;
+      }
+
+      if (Date.now() - startedAt >= timeoutMs) {
+        return this.exchangeResult(input, response, undefined, startedAt, true);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
+
+  /**
+   * Drop a disconnected client's prompt registrations
+   */
+  static forgetClient(clientId: string): void {
+    this.registrations.delete(clientId);
+  }
+
+  private static exchangeResult(input: string, lines: string[], prompt: string | undefined, startedAt: number, timedOut: boolean): ReplExchange {
+    const exchange: ReplExchange = {
+      input,
+      response: lines.join('\n').replace(/\s+$/, ''),
+      durationMs: Date.now() - startedAt,
+      timedOut
+    };
+    if (prompt !== undefined) {
+      exchange.prompt = prompt;
+    }
+    return exchange;
+  }
+
+  private static resolvePrompt(preset?: string, prompt?: string): ReplRegistration | undefined {
+    if (prompt) {
+      const promptValidation = Validator.validateString(prompt, 'prompt', 256);
+      if (!promptValidation.valid) {
+        throw new ValidationError(`Invalid prompt: ${promptValidation.errors.join(', ')}`);
+      }
+      try {
+        return { prompt: new RegExp(prompt), source: 'custom' };
+      } catch (error) {
+        throw new ValidationError(`Invalid prompt regex: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (preset) {
+      const source = Object.prototype.hasOwnProperty.call(PROMPT_PRESETS, preset) ? PROMPT_PRESETS[preset] : undefined;
+      if (!source) {
+        throw new ValidationError(`Unknown prompt preset: ${preset}. Available: ${Object.keys(PROMPT_PRESETS).join(', ')}`);
+      }
+      return { prompt: new RegExp(source), source: preset };
+    }
+
+    return undefined;
+  }
+
+  private static paneKey(session?: string, paneId?: string): string {
+    if (!paneId) {
+      return `${session ?? ''}:focused`;
+    }
+
+    const idValidation = Validator.validatePaneId(paneId);
+    if (!idValidation.valid) {
+      throw new ValidationError(idValidation.errors.join(', '));
+    }
+    return `${session ?? ''}:${idValidation.sanitized}`;
+  }
+}
+
+export const REPL_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_repl_register',
+    description: 'Register the prompt regex (or a built-in preset) that marks a REPL pane as ready for input',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pane_id: { type: 'string', description: 'Optional REPL pane (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        preset: { type: 'string', enum: Object.keys(ReplTools.presets()), description: 'Built-in prompt preset' },
+        prompt: { type: 'string', description: 'Custom prompt regex matched against the last line (overrides preset)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: (args, context) => ReplTools.registerPrompt(context.clientId, {
+      sessionName: args.session_name,
+      paneId: args.pane_id,
+      preset: args.preset,
+      prompt: args.prompt
+    })
+  }),
+  defineTool({
+    name: 'zellij_repl_send',
+    description: 'Send input to a REPL pane, wait for its prompt to return, and give back only the response text',
+    annotations: RUNS_COMMANDS,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input: { type: 'string', description: 'Input to send; Enter is pressed afterwards' },
+        pane_id: { type: 'string', description: 'Optional REPL pane (terminal_N, see zellij_list_panes; needs an attached client); defaults to the focused pane' },
+        preset: { type: 'string', enum: Object.keys(ReplTools.presets()), description: 'Prompt preset to use instead of the registered prompt' },
+        prompt: { type: 'string', description: 'Prompt regex to use instead of the registered prompt' },
+        timeout_ms: { type: 'number', description: 'How long to wait for the prompt (default: 30000)' },
+        restore_focus: { type: 'boolean', description: 'Return focus to the previous pane afterwards (with pane_id)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['input'],
+    },
+    handler: (args, context) => ReplTools.send(context.clientId, args.input, {
+      sessionName: args.session_name,
+      paneId: args.pane_id,
+      preset: args.preset,
+      prompt: args.prompt,
+      timeoutMs: args.timeout_ms,
+      restoreFocus: args.restore_focus
+    })
+  }),
+];
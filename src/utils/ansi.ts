@@ -0,0 +1,8 @@
+// ANSI escape sequence helpers
+
+// CSI sequences, OSC sequences (BEL or ST terminated) and lone two-byte escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
@@ -83,7 +83,7 @@ export class Cache {
 // Singleton instance
 export const cache = Cache.getInstance();
 
-// Auto-cleanup every minute
+// Auto-cleanup every minute; unref'd so importing the cache doesn't keep a process alive
 setInterval(() => {
   cache.cleanup();
-}, 60000);
\ No newline at end of file
+}, 60000).unref();
\ No newline at end of file
@@ -1,34 +1,136 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { ZellijError } from '../types/zellij.js';
-
-const execPromise = promisify(exec);
+import { execFile } from 'child_process';
+import { ZellijCommand, ZellijError, ValidationError } from '../types/zellij.js';
 
 export interface CommandResult {
   stdout: string;
   stderr: string;
 }
 
-export async function execAsync(command: string, options?: { timeout?: number; cwd?: string }): Promise<CommandResult> {
-  try {
-    const result = await execPromise(command, {
+export interface ExecOptions {
+  timeout?: number;
+  cwd?: string;
+  input?: string;
+}
+
+/**
+ * Run a program with an argv array (no shell involved), so arguments
+ * reach the child process byte-for-byte.
+ */
+export async function execFileAsync(file: string, args: string[], options?: ExecOptions): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(file, args, {
       timeout: options?.timeout || 30000, // 30 second default timeout
       cwd: options?.cwd,
       maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new ZellijError(
+          `Command execution failed: ${error.message}`,
+          error.code !== undefined && error.code !== null ? String(error.code) : undefined
+        ));
+        return;
+      }
+
+      if (stderr) {
+        console.warn('Command stderr:', stderr);
+      }
+
+      resolve({
+        stdout: stdout.trim(),
+        stderr: stderr.trim()
+      });
     });
-    
-    if (result.stderr) {
-      console.warn('Command stderr:', result.stderr);
+
+    // Always close stdin so commands like `zellij pipe` never wait on it
+    child.stdin?.end(options?.input);
+  });
+}
+
+/**
+ * Build the argv for a Zellij invocation. Global flags such as --session
+ * must precede the subcommand.
+ */
+export function buildZellijArgs(command: ZellijCommand): string[] {
+  const argv: string[] = [];
+
+  if (command.session) {
+    argv.push('--session', command.session);
+  }
+
+  argv.push(command.command, ...command.args);
+  return argv;
+}
+
+/**
+ * Execute a Zellij command described by a ZellijCommand
+ */
+export async function execZellij(command: ZellijCommand): Promise<CommandResult> {
+  return execFileAsync('zellij', buildZellijArgs(command), {
+    timeout: command.timeout,
+    cwd: command.cwd,
+    input: command.input
+  });
+}
+
+/**
+ * Split a command line into argv the way a POSIX shell would for plain
+ * words, single quotes, double quotes and backslash escapes. No expansion
+ * of any kind is performed.
+ */
+export function splitCommandLine(commandLine: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const ch = commandLine[i];
+
+    if (quote === "'") {
+      if (ch === "'") {
+        quote = null;
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (ch === '"') {
+        quote = null;
+      } else if (ch === '\\' && i + 1 < commandLine.length && '"\\'.includes(commandLine[i + 1])) {
+        current += commandLine[++i];
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === '\\' && i + 1 < commandLine.length) {
+      current += commandLine[++i];
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) {
+        args.push(current);
+        current = '';
+        inWord = false;
+      }
+    } else {
+      current += ch;
+      inWord = true;
     }
-    
-    return {
-      stdout: result.stdout.trim(),
-      stderr: result.stderr.trim()
-    };
-  } catch (error: any) {
-    throw new ZellijError(
-      `Command execution failed: ${error.message}`,
-      error.code
-    );
   }
-}
\ No newline at end of file
+
+  if (quote) {
+    throw new ValidationError('Command has an unterminated quote');
+  }
+
+  if (inWord) {
+    args.push(current);
+  }
+
+  return args;
+}
@@ -0,0 +1,584 @@
+// KDL (v1, plus v2-style #true/#false/#null keywords) parser and serializer
+
+import { KdlNode, KdlValue, KdlPosition, KdlParseError, ValidationError } from '../types/zellij.js';
+
+// Characters that can never appear in a bare identifier
+const NON_IDENTIFIER_CHARS = new Set('\\/(){}<>;[]=,"');
+
+function isNewline(ch: string): boolean {
+  return /[\n\r\u0085\u000C\u2028\u2029]/.test(ch);
+}
+
+function isWhitespace(ch: string): boolean {
+  return /[\t \u00A0\u1680\u2000-\u200A\u202F\u205F\u3000\uFEFF]/.test(ch);
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return ch !== undefined && !isWhitespace(ch) && !isNewline(ch) && !NON_IDENTIFIER_CHARS.has(ch) && ch.charCodeAt(0) > 0x20;
+}
+
+class KdlParser {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(private source: string) {}
+
+  parseDocument(): KdlNode[] {
+    return this.parseNodes(false);
+  }
+
+  private parseNodes(inBlock: boolean): KdlNode[] {
+    const nodes: KdlNode[] = [];
+
+    while (true) {
+      this.skipLineSpace();
+
+      if (this.eof()) {
+        if (inBlock) {
+          this.error('Unterminated children block, expected "}"');
+        }
+        return nodes;
+      }
+
+      if (this.peek() === '}') {
+        if (!inBlock) {
+          this.error('Unexpected "}"');
+        }
+        return nodes;
+      }
+
+      let commented = false;
+      if (this.startsWith('/-')) {
+        this.advance(2);
+        this.skipLineSpace();
+        commented = true;
+      }
+
+      const node = this.parseNode();
+      if (!commented) {
+        nodes.push(node);
+      }
+    }
+  }
+
+  private parseNode(): KdlNode {
+    const position = this.position();
+    const type = this.parseTypeAnnotation();
+    const name = this.parseName('node name');
+
+    const node: KdlNode = { name, args: [], props: {}, children: [], position };
+    if (type !== undefined) {
+      node.type = type;
+    }
+
+    let hasChildren = false;
+
+    while (true) {
+      const hadSpace = this.skipNodeSpace();
+
+      if (this.eof()) {
+        break;
+      }
+
+      const ch = this.peek();
+
+      if (isNewline(ch) || ch === '}') {
+        break;
+      }
+
+      if (ch === ';') {
+        this.advance(1);
+        break;
+      }
+
+      if (this.startsWith('//')) {
+        this.skipLineComment();
+        break;
+      }
+
+      let commented = false;
+      if (this.startsWith('/-')) {
+        this.advance(2);
+        this.skipNodeSpace();
+        commented = true;
+      }
+
+      if (this.peek() === '{') {
+        const children = this.parseChildren();
+        if (!commented) {
+          if (hasChildren) {
+            this.error(`Node "${name}" has more than one children block`);
+          }
+          node.children = children;
+          hasChildren = true;
+        }
+        continue;
+      }
+
+      if (hasChildren) {
+        this.error(`Unexpected entry after children block of "${name}"`);
+      }
+
+      if (!hadSpace && !commented) {
+        this.error('Expected whitespace before node entry');
+      }
+
+      const entry = this.parseEntry();
+      if (commented) {
+        continue;
+      }
+
+      if (entry.key !== undefined) {
+        node.props[entry.key] = entry.value;
+      } else {
+        node.args.push(entry.value);
+      }
+    }
+
+    return node;
+  }
+
+  private parseChildren(): KdlNode[] {
+    this.expect('{');
+    const children = this.parseNodes(true);
+    this.expect('}');
+    return children;
+  }
+
+  private parseEntry(): { key?: string; value: KdlValue } {
+    this.parseTypeAnnotation();
+
+    const start = this.position();
+    const ch = this.peek();
+
+    if (ch === '"' || this.isRawStringStart()) {
+      const text = this.parseString();
+      if (this.peek() === '=') {
+        this.advance(1);
+        return { key: text, value: this.parseValue() };
+      }
+      return { value: text };
+    }
+
+    if (this.isNumberStart()) {
+      return { value: this.parseNumber() };
+    }
+
+    if (ch === '#') {
+      return { value: this.parseValue() };
+    }
+
+    if (isIdentifierChar(ch)) {
+      const identifier = this.parseIdentifier();
+      if (this.peek() === '=') {
+        this.advance(1);
+        return { key: identifier, value: this.parseValue() };
+      }
+      const keyword = this.keywordValue(identifier);
+      if (keyword === undefined) {
+        throw new KdlParseError(`Bare identifier "${identifier}" is not a valid value; quote it`, start.line, start.column);
+      }
+      return { value: keyword };
+    }
+
+    this.error(`Unexpected character ${JSON.stringify(ch)}`);
+  }
+
+  private parseValue(): KdlValue {
+    this.parseTypeAnnotation();
+
+    const start = this.position();
+    const ch = this.peek();
+
+    if (ch === '"' || this.isRawStringStart()) {
+      return this.parseString();
+    }
+
+    if (this.isNumberStart()) {
+      return this.parseNumber();
+    }
+
+    if (ch === '#' || isIdentifierChar(ch)) {
+      if (ch === '#') {
+        this.advance(1);
+      }
+      const word = (ch === '#' ? '#' : '') + this.parseIdentifier();
+      const keyword = this.keywordValue(word);
+      if (keyword === undefined) {
+        throw new KdlParseError(`Invalid value "${word}"`, start.line, start.column);
+      }
+      return keyword;
+    }
+
+    this.error(this.eof() ? 'Expected a value' : `Unexpected character ${JSON.stringify(ch)}`);
+  }
+
+  private keywordValue(word: string): KdlValue | undefined {
+    switch (word) {
+      case 'true':
+      case '#true':
+        return true;
+      case 'false':
+      case '#false':
+        return false;
+      case 'null':
+      case '#null':
+        return null;
+      default:
+        return undefined;
+    }
+  }
+
+  private parseName(what: string): string {
+    const ch = this.peek();
+
+    if (ch === '"' || this.isRawStringStart()) {
+      return this.parseString();
+    }
+
+    if (this.isNumberStart() || !isIdentifierChar(ch)) {
+      this.error(this.eof() ? `Expected ${what}` : `Invalid ${what} starting with "${ch}"`);
+    }
+
+    return this.parseIdentifier();
+  }
+
+  private parseIdentifier(): string {
+    const start = this.pos;
+    while (!this.eof() && isIdentifierChar(this.peek())) {
+      this.advance(1);
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private parseTypeAnnotation(): string | undefined {
+    if (this.peek() !== '(') {
+      return undefined;
+    }
+
+    this.advance(1);
+    const type = this.parseName('type annotation');
+    this.expect(')');
+    return type;
+  }
+
+  private isRawStringStart(): boolean {
+    if (this.peek() !== 'r') {
+      return false;
+    }
+    let i = this.pos + 1;
+    while (this.source[i] === '#') {
+      i++;
+    }
+    return this.source[i] === '"';
+  }
+
+  private parseString(): string {
+    const start = this.position();
+
+    if (this.peek() === 'r') {
+      this.advance(1);
+      let hashes = 0;
+      while (this.peek() === '#') {
+        this.advance(1);
+        hashes++;
+      }
+      this.expect('"');
+      const terminator = '"' + '#'.repeat(hashes);
+      const end = this.source.indexOf(terminator, this.pos);
+      if (end === -1) {
+        throw new KdlParseError('Unterminated raw string', start.line, start.column);
+      }
+      const text = this.source.slice(this.pos, end);
+      this.advance(end - this.pos + terminator.length);
+      return text;
+    }
+
+    this.expect('"');
+    let text = '';
+
+    while (true) {
+      if (this.eof()) {
+        throw new KdlParseError('Unterminated string', start.line, start.column);
+      }
+
+      const ch = this.peek();
+
+      if (ch === '"') {
+        this.advance(1);
+        return text;
+      }
+
+      if (ch === '\\') {
+        const escapePosition = this.position();
+        this.advance(1);
+        const escape = this.peek();
+        this.advance(1);
+        switch (escape) {
+          case 'n': text += '\n'; break;
+          case 'r': text += '\r'; break;
+          case 't': text += '\t'; break;
+          case '\\': text += '\\'; break;
+          case '/': text += '/'; break;
+          case '"': text += '"'; break;
+          case 'b': text += '\b'; break;
+          case 'f': text += '\f'; break;
+          case 's': text += ' '; break;
+          case 'u': {
+            const match = this.source.slice(this.pos).match(/^\{([0-9a-fA-F]{1,6})\}/);
+            if (!match) {
+              throw new KdlParseError('Invalid unicode escape', escapePosition.line, escapePosition.column);
+            }
+            text += String.fromCodePoint(parseInt(match[1], 16));
+            this.advance(match[0].length);
+            break;
+          }
+          default:
+            throw new KdlParseError(`Invalid escape "\\${escape ?? ''}"`, escapePosition.line, escapePosition.column);
+        }
+        continue;
+      }
+
+      text += ch;
+      this.advance(1);
+    }
+  }
+
+  private isNumberStart(): boolean {
+    const ch = this.peek();
+    if (ch >= '0' && ch <= '9') {
+      return true;
+    }
+    const next = this.source[this.pos + 1];
+    return (ch === '+' || ch === '-') && next !== undefined && next >= '0' && next <= '9';
+  }
+
+  private parseNumber(): number {
+    const start = this.position();
+    const rest = this.source.slice(this.pos);
+    const match = rest.match(/^[+-]?(?:0x[0-9a-fA-F][0-9a-fA-F_]*|0o[0-7][0-7_]*|0b[01][01_]*|[0-9][0-9_]*(?:\.[0-9][0-9_]*)?(?:[eE][+-]?[0-9][0-9_]*)?)/);
+
+    if (!match || isIdentifierChar(rest[match[0].length])) {
+      throw new KdlParseError(`Invalid number "${rest.match(/^[^\s;{}()=]*/)?.[0] ?? ''}"`, start.line, start.column);
+    }
+
+    this.advance(match[0].length);
+
+    const raw = match[0].replace(/_/g, '');
+    const sign = raw.startsWith('-') ? -1 : 1;
+    const unsigned = raw.replace(/^[+-]/, '');
+
+    if (/^0x/i.test(unsigned)) {
+      return sign * parseInt(unsigned.slice(2), 16);
+    }
+    if (/^0o/i.test(unsigned)) {
+      return sign * parseInt(unsigned.slice(2), 8);
+    }
+    if (/^0b/i.test(unsigned)) {
+      return sign * parseInt(unsigned.slice(2), 2);
+    }
+    return sign * Number(unsigned);
+  }
+
+  // Whitespace, newlines, semicolons and comments between nodes
+  private skipLineSpace(): void {
+    while (!this.eof()) {
+      const ch = this.peek();
+      if (isWhitespace(ch) || isNewline(ch) || ch === ';') {
+        this.advance(1);
+      } else if (this.startsWith('//')) {
+        this.skipLineComment();
+      } else if (this.startsWith('/*')) {
+        this.skipBlockComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Whitespace, block comments and line continuations within a node
+  private skipNodeSpace(): boolean {
+    let skipped = false;
+
+    while (!this.eof()) {
+      const ch = this.peek();
+      if (isWhitespace(ch)) {
+        this.advance(1);
+      } else if (this.startsWith('/*')) {
+        this.skipBlockComment();
+      } else if (ch === '\\') {
+        this.skipLineContinuation();
+      } else {
+        break;
+      }
+      skipped = true;
+    }
+
+    return skipped;
+  }
+
+  private skipLineContinuation(): void {
+    this.advance(1);
+    while (!this.eof() && isWhitespace(this.peek())) {
+      this.advance(1);
+    }
+    if (this.startsWith('//')) {
+      this.skipLineComment();
+    }
+    if (this.eof()) {
+      return;
+    }
+    if (!isNewline(this.peek())) {
+      this.error('Expected newline after line continuation "\\"');
+    }
+    this.advance(this.startsWith('\r\n') ? 2 : 1);
+  }
+
+  private skipLineComment(): void {
+    while (!this.eof() && !isNewline(this.peek())) {
+      this.advance(1);
+    }
+  }
+
+  private skipBlockComment(): void {
+    const start = this.position();
+    let depth = 0;
+
+    do {
+      if (this.eof()) {
+        throw new KdlParseError('Unterminated block comment', start.line, start.column);
+      }
+      if (this.startsWith('/*')) {
+        depth++;
+        this.advance(2);
+      } else if (this.startsWith('*/')) {
+        depth--;
+        this.advance(2);
+      } else {
+        this.advance(1);
+      }
+    } while (depth > 0);
+  }
+
+  private expect(ch: string): void {
+    if (this.peek() !== ch) {
+      this.error(this.eof() ? `Expected "${ch}" but reached end of input` : `Expected "${ch}" but found "${this.peek()}"`);
+    }
+    this.advance(1);
+  }
+
+  private advance(count: number): void {
+    for (let i = 0; i < count && this.pos < this.source.length; i++) {
+      const ch = this.source[this.pos++];
+      if (ch === '\r' && this.source[this.pos] === '\n') {
+        // Counted with the following \n
+        continue;
+      }
+      if (isNewline(ch)) {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+    }
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos);
+  }
+
+  private peek(): string {
+    return this.source[this.pos];
+  }
+
+  private eof(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  private position(): KdlPosition {
+    return { line: this.line, column: this.column };
+  }
+
+  private error(message: string): never {
+    throw new KdlParseError(message, this.line, this.column);
+  }
+}
+
+/**
+ * Parse a KDL document into a list of top-level nodes
+ */
+export function parseKdl(source: string): KdlNode[] {
+  return new KdlParser(source).parseDocument();
+}
+
+function formatIdentifier(name: string): string {
+  const bare = name.length > 0
+    && [...name].every(isIdentifierChar)
+    && !/^[+-]?[0-9]/.test(name)
+    && !/^r#*"/.test(name)
+    && !['true', 'false', 'null'].includes(name);
+  return bare ? name : formatString(name);
+}
+
+function formatString(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\f/g, '\\f')
+    .replace(/\x08/g, '\\b');
+  return `"${escaped}"`;
+}
+
+/**
+ * Format a single KDL value
+ */
+export function formatKdlValue(value: KdlValue): string {
+  if (typeof value === 'string') {
+    return formatString(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Cannot serialize non-finite number ${value} to KDL`);
+    }
+    return String(value);
+  }
+  return String(value);
+}
+
+/**
+ * Serialize nodes back to KDL text
+ */
+export function serializeKdl(nodes: KdlNode[], indent: number = 0): string {
+  const pad = '    '.repeat(indent);
+  let output = '';
+
+  for (const node of nodes) {
+    let line = pad;
+    if (node.type !== undefined) {
+      line += `(${formatIdentifier(node.type)})`;
+    }
+    line += formatIdentifier(node.name);
+
+    for (const arg of node.args) {
+      line += ` ${formatKdlValue(arg)}`;
+    }
+
+    for (const [key, value] of Object.entries(node.props)) {
+      if (value !== undefined) {
+        line += ` ${formatIdentifier(key)}=${formatKdlValue(value)}`;
+      }
+    }
+
+    if (node.children.length > 0) {
+      line += ` {\n${serializeKdl(node.children, indent + 1)}${pad}}`;
+    }
+
+    output += `${line}\n`;
+  }
+
+  return output;
+}
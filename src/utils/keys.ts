@@ -0,0 +1,150 @@
+// Named key -> terminal byte sequence encoding (xterm conventions)
+
+const ESC = 0x1b;
+
+// Keys sent as-is, ignoring modifiers other than Alt
+const PLAIN_KEYS: Record<string, number[]> = {
+  enter: [13],
+  return: [13],
+  tab: [9],
+  esc: [ESC],
+  escape: [ESC],
+  backspace: [127],
+  space: [32],
+};
+
+// CSI keys that take an xterm modifier parameter: ESC [ 1 ; <mod> <final>
+const CURSOR_KEYS: Record<string, string> = {
+  up: 'A',
+  down: 'B',
+  right: 'C',
+  left: 'D',
+  home: 'H',
+  end: 'F',
+  f1: 'P',
+  f2: 'Q',
+  f3: 'R',
+  f4: 'S',
+};
+
+// Tilde keys: ESC [ <code> ~, or ESC [ <code> ; <mod> ~ with modifiers
+const TILDE_KEYS: Record<string, number> = {
+  insert: 2,
+  delete: 3,
+  pageup: 5,
+  pagedown: 6,
+  f5: 15,
+  f6: 17,
+  f7: 18,
+  f8: 19,
+  f9: 20,
+  f10: 21,
+  f11: 23,
+  f12: 24,
+};
+
+// Ctrl combined with punctuation
+const CTRL_SYMBOLS: Record<string, number> = {
+  '@': 0,
+  space: 0,
+  '[': 27,
+  '\\': 28,
+  ']': 29,
+  '^': 30,
+  '_': 31,
+  '?': 127,
+};
+
+const MODIFIER_PATTERN = /^((?:(?:ctrl|control|c|alt|meta|m|option|shift|s)[-+])*)(.+)$/i;
+
+interface Modifiers {
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+function bytesOf(text: string): number[] {
+  return [...Buffer.from(text, 'utf8')];
+}
+
+function parseModifiers(prefix: string): Modifiers {
+  const modifiers: Modifiers = { ctrl: false, alt: false, shift: false };
+  for (const part of prefix.split(/[-+]/).filter(Boolean)) {
+    const name = part.toLowerCase();
+    if (name === 'ctrl' || name === 'control' || name === 'c') {
+      modifiers.ctrl = true;
+    } else if (name === 'shift' || name === 's') {
+      modifiers.shift = true;
+    } else {
+      modifiers.alt = true;
+    }
+  }
+  return modifiers;
+}
+
+function encodeBase(key: string, modifiers: Modifiers): number[] | undefined {
+  const name = key.toLowerCase().replace(/[\s_]/g, '');
+  const modifierParam = 1 + (modifiers.shift ? 1 : 0) + (modifiers.alt ? 2 : 0) + (modifiers.ctrl ? 4 : 0);
+
+  if (Object.hasOwn(CURSOR_KEYS, name)) {
+    const final = CURSOR_KEYS[name];
+    if (modifierParam > 1) {
+      return bytesOf(`\x1b[1;${modifierParam}${final}`);
+    }
+    // Unmodified F1-F4 use SS3 rather than CSI
+    return bytesOf(name.startsWith('f') ? `\x1bO${final}` : `\x1b[${final}`);
+  }
+
+  if (Object.hasOwn(TILDE_KEYS, name)) {
+    const code = TILDE_KEYS[name];
+    return bytesOf(modifierParam > 1 ? `\x1b[${code};${modifierParam}~` : `\x1b[${code}~`);
+  }
+
+  if (name === 'tab' && modifiers.shift) {
+    return bytesOf('\x1b[Z');
+  }
+
+  if (modifiers.ctrl) {
+    if (/^[a-z]$/i.test(key)) {
+      return [key.toLowerCase().charCodeAt(0) & 0x1f];
+    }
+    const symbol = key.length === 1 ? key : name;
+    return Object.hasOwn(CTRL_SYMBOLS, symbol) ? [CTRL_SYMBOLS[symbol]] : undefined;
+  }
+
+  if (Object.hasOwn(PLAIN_KEYS, name)) {
+    return PLAIN_KEYS[name];
+  }
+
+  if ([...key].length === 1) {
+    return bytesOf(modifiers.shift ? key.toUpperCase() : key);
+  }
+
+  return undefined;
+}
+
+/**
+ * Encode a key name such as "Ctrl-c", "Esc", "Up", "Shift-Tab", "F5" or
+ * "Alt-x" into the bytes a terminal would send. Returns undefined for
+ * unknown names.
+ */
+export function encodeKey(spec: string): number[] | undefined {
+  const match = spec.trim().match(MODIFIER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const modifiers = parseModifiers(match[1]);
+  const bytes = encodeBase(match[2], modifiers);
+  if (!bytes) {
+    return undefined;
+  }
+
+  // Alt prefixes plain keys with ESC; cursor and tilde keys carry it in the modifier parameter
+  const name = match[2].toLowerCase().replace(/[\s_]/g, '');
+  if (modifiers.alt && !Object.hasOwn(CURSOR_KEYS, name) && !Object.hasOwn(TILDE_KEYS, name)) {
+    return [ESC, ...bytes];
+  }
+
+  return bytes;
+}
@@ -0,0 +1,1039 @@
+// Conversion between KDL documents and the typed Zellij layout model
+
+import {
+  KdlNode,
+  KdlValue,
+  KdlExtras,
+  KdlParseError,
+  LayoutDiagnostic,
+  LayoutPaneSummary,
+  LayoutTabSummary,
+  LayoutPane,
+  LayoutPlugin,
+  LayoutTab,
+  SwapLayout,
+  SwapLayoutVariant,
+  ZellijLayout,
+  ValidationError,
+} from '../types/zellij.js';
+import { parseKdl, serializeKdl } from './kdl.js';
+import { posix } from 'path';
+
+// Pane settings Zellij accepts either as a property or as a single-argument child node
+const PANE_STRING_FIELDS = ['name', 'split_direction', 'command', 'cwd', 'edit'] as const;
+const PANE_BOOLEAN_FIELDS = ['focus', 'borderless', 'close_on_exit', 'start_suspended', 'stacked', 'expanded', 'pinned'] as const;
+const PANE_DIMENSION_FIELDS = ['size', 'x', 'y', 'width', 'height'] as const;
+
+const TAB_STRING_FIELDS = ['name', 'cwd', 'split_direction'] as const;
+const TAB_BOOLEAN_FIELDS = ['focus', 'hide_floating_panes'] as const;
+
+const SWAP_CONSTRAINT_FIELDS = ['max_panes', 'min_panes', 'exact_panes'] as const;
+
+interface TemplateNames {
+  panes: Set<string>;
+  tabs: Set<string>;
+}
+
+/**
+ * Pull a setting from a node property or a single-argument child node,
+ * removing it from the working copies so leftovers end up in extras.
+ */
+function takeSetting(props: Record<string, KdlValue>, children: KdlNode[], key: string): KdlValue | undefined {
+  if (key in props) {
+    const value = props[key];
+    delete props[key];
+    return value;
+  }
+
+  const index = children.findIndex(child =>
+    child.name === key && child.args.length === 1 && Object.keys(child.props).length === 0 && child.children.length === 0
+  );
+  if (index !== -1) {
+    const [child] = children.splice(index, 1);
+    return child.args[0];
+  }
+
+  return undefined;
+}
+
+function setField(target: object, field: string, value: unknown): void {
+  (target as Record<string, unknown>)[field] = value;
+}
+
+function asString(value: KdlValue | undefined, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError(`Layout field "${field}" must be a string`, field);
+  }
+  return value;
+}
+
+function asBoolean(value: KdlValue | undefined, field: string): boolean | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(`Layout field "${field}" must be true or false`, field);
+  }
+  return value;
+}
+
+function asDimension(value: KdlValue | undefined, field: string): string | number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new ValidationError(`Layout field "${field}" must be a number or a percentage string`, field);
+  }
+  return value;
+}
+
+function assignExtras(target: KdlExtras, args: KdlValue[], props: Record<string, KdlValue>, children: KdlNode[]): void {
+  if (args.length > 0) {
+    target.extra_args = args;
+  }
+  if (Object.keys(props).length > 0) {
+    target.extra_props = props;
+  }
+  if (children.length > 0) {
+    target.extra_nodes = children.map(stripPositions);
+  }
+}
+
+// Positions are parse metadata; keep them out of the JSON model
+function stripPositions(node: KdlNode): KdlNode {
+  const copy: KdlNode = { name: node.name, args: [...node.args], props: { ...node.props }, children: node.children.map(stripPositions) };
+  if (node.type !== undefined) {
+    copy.type = node.type;
+  }
+  return copy;
+}
+
+function isPaneNode(node: KdlNode, templates: TemplateNames): boolean {
+  return node.name === 'pane' || node.name === 'children' || templates.panes.has(node.name);
+}
+
+function paneFromNode(node: KdlNode, templates: TemplateNames): LayoutPane {
+  const props = { ...node.props };
+  const children = [...node.children];
+  const pane: LayoutPane = {};
+
+  if (node.name === 'children') {
+    pane.children_placeholder = true;
+  } else if (node.name !== 'pane') {
+    pane.template = node.name;
+  }
+
+  for (const field of PANE_STRING_FIELDS) {
+    const value = asString(takeSetting(props, children, field), field);
+    if (value !== undefined) {
+      setField(pane, field, value);
+    }
+  }
+
+  for (const field of PANE_BOOLEAN_FIELDS) {
+    const value = asBoolean(takeSetting(props, children, field), field);
+    if (value !== undefined) {
+      setField(pane, field, value);
+    }
+  }
+
+  for (const field of PANE_DIMENSION_FIELDS) {
+    const value = asDimension(takeSetting(props, children, field), field);
+    if (value !== undefined) {
+      setField(pane, field, value);
+    }
+  }
+
+  const remaining: KdlNode[] = [];
+  const panes: LayoutPane[] = [];
+
+  for (const child of children) {
+    if (child.name === 'args' && Object.keys(child.props).length === 0 && child.children.length === 0 && !pane.args) {
+      pane.args = child.args.map(arg => String(arg));
+    } else if (child.name === 'plugin' && !pane.plugin) {
+      pane.plugin = pluginFromNode(child);
+    } else if (isPaneNode(child, templates)) {
+      panes.push(paneFromNode(child, templates));
+    } else {
+      remaining.push(child);
+    }
+  }
+
+  if (panes.length > 0) {
+    pane.panes = panes;
+  }
+
+  assignExtras(pane, [...node.args], props, remaining);
+  return pane;
+}
+
+function pluginFromNode(node: KdlNode): LayoutPlugin {
+  const props = { ...node.props };
+  const args = [...node.args];
+
+  let location = asString(props.location, 'location');
+  delete props.location;
+  if (location === undefined && typeof args[0] === 'string') {
+    location = args.shift() as string;
+  }
+
+  const plugin: LayoutPlugin = { location: location ?? '' };
+  const configuration: Record<string, KdlValue> = {};
+  const remaining: KdlNode[] = [];
+
+  for (const child of node.children) {
+    const simple = child.args.length === 1 && Object.keys(child.props).length === 0 && child.children.length === 0;
+    if (simple && !(child.name in configuration)) {
+      configuration[child.name] = child.args[0];
+    } else {
+      remaining.push(child);
+    }
+  }
+
+  if (Object.keys(configuration).length > 0) {
+    plugin.configuration = configuration;
+  }
+
+  assignExtras(plugin, args, props, remaining);
+  return plugin;
+}
+
+function tabFromNode(node: KdlNode, templates: TemplateNames, constraints: readonly string[] = []): SwapLayoutVariant {
+  const props = { ...node.props };
+  const children = [...node.children];
+  const tab: SwapLayoutVariant = { panes: [] };
+
+  if (node.name !== 'tab' && node.name !== 'floating_panes' && node.name !== 'tab_template'
+    && node.name !== 'default_tab_template' && node.name !== 'new_tab_template') {
+    tab.template = node.name;
+  }
+
+  for (const field of TAB_STRING_FIELDS) {
+    const value = asString(takeSetting(props, children, field), field);
+    if (value !== undefined) {
+      setField(tab, field, value);
+    }
+  }
+
+  for (const field of TAB_BOOLEAN_FIELDS) {
+    const value = asBoolean(takeSetting(props, children, field), field);
+    if (value !== undefined) {
+      setField(tab, field, value);
+    }
+  }
+
+  for (const field of constraints) {
+    const value = props[field];
+    if (typeof value === 'number') {
+      setField(tab, field, value);
+      delete props[field];
+    }
+  }
+
+  const remaining: KdlNode[] = [];
+
+  for (const child of children) {
+    if (isPaneNode(child, templates)) {
+      tab.panes.push(paneFromNode(child, templates));
+    } else if (child.name === 'floating_panes' && !tab.floating_panes) {
+      tab.floating_panes = child.children.filter(pane => isPaneNode(pane, templates)).map(pane => paneFromNode(pane, templates));
+      const leftovers = child.children.filter(pane => !isPaneNode(pane, templates));
+      if (leftovers.length > 0 || child.args.length > 0 || Object.keys(child.props).length > 0) {
+        // Unusual floating_panes content is kept verbatim instead
+        delete tab.floating_panes;
+        remaining.push(child);
+      }
+    } else {
+      remaining.push(child);
+    }
+  }
+
+  assignExtras(tab, [...node.args], props, remaining);
+  return tab;
+}
+
+function swapLayoutFromNode(node: KdlNode, templates: TemplateNames, floating: boolean): SwapLayout {
+  const props = { ...node.props };
+  const swap: SwapLayout = { layouts: [] };
+
+  const name = asString(props.name, 'name');
+  delete props.name;
+  if (name !== undefined) {
+    swap.name = name;
+  }
+
+  const remaining: KdlNode[] = [];
+
+  for (const child of node.children) {
+    const isVariant = floating
+      ? child.name === 'floating_panes'
+      : child.name === 'tab' || templates.tabs.has(child.name);
+
+    if (!isVariant) {
+      remaining.push(child);
+      continue;
+    }
+
+    if (floating) {
+      // Floating variants hold their panes directly
+      const variant = tabFromNode({ ...child, children: [] }, templates, SWAP_CONSTRAINT_FIELDS);
+      variant.panes = child.children.filter(pane => isPaneNode(pane, templates)).map(pane => paneFromNode(pane, templates));
+      const leftovers = child.children.filter(pane => !isPaneNode(pane, templates));
+      if (leftovers.length > 0) {
+        variant.extra_nodes = [...(variant.extra_nodes ?? []), ...leftovers.map(stripPositions)];
+      }
+      swap.layouts.push(variant);
+    } else {
+      swap.layouts.push(tabFromNode(child, templates, SWAP_CONSTRAINT_FIELDS));
+    }
+  }
+
+  assignExtras(swap, [...node.args], props, remaining);
+  return swap;
+}
+
+function collectTemplateNames(layoutNode: KdlNode): TemplateNames {
+  const templates: TemplateNames = { panes: new Set(), tabs: new Set() };
+
+  for (const child of layoutNode.children) {
+    const name = child.props.name;
+    if (typeof name !== 'string') {
+      continue;
+    }
+    if (child.name === 'pane_template') {
+      templates.panes.add(name);
+    } else if (child.name === 'tab_template') {
+      templates.tabs.add(name);
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Build the typed layout model from parsed KDL nodes
+ */
+export function layoutFromKdl(nodes: KdlNode[], name: string = 'layout'): ZellijLayout {
+  const layoutNode = nodes.find(node => node.name === 'layout');
+  if (!layoutNode) {
+    throw new ValidationError('Layout must contain a top-level "layout" node');
+  }
+
+  const templates = collectTemplateNames(layoutNode);
+  const layout: ZellijLayout = { name, tabs: [] };
+  const props = { ...layoutNode.props };
+  const children = [...layoutNode.children];
+
+  const cwd = asString(takeSetting(props, children, 'cwd'), 'cwd');
+  if (cwd !== undefined) {
+    layout.cwd = cwd;
+  }
+
+  const remaining: KdlNode[] = [];
+
+  for (const child of children) {
+    switch (child.name) {
+      case 'tab':
+        layout.tabs.push(tabFromNode(child, templates));
+        break;
+      case 'floating_panes':
+        if (layout.floating_panes || child.children.some(pane => !isPaneNode(pane, templates))) {
+          remaining.push(child);
+        } else {
+          layout.floating_panes = child.children.map(pane => paneFromNode(pane, templates));
+        }
+        break;
+      case 'pane_template': {
+        const template = paneFromNode(child, templates);
+        delete template.template;
+        (layout.pane_templates ??= []).push(template);
+        break;
+      }
+      case 'tab_template':
+        (layout.tab_templates ??= []).push(tabFromNode(child, templates));
+        break;
+      case 'default_tab_template':
+        if (layout.default_tab_template) {
+          remaining.push(child);
+        } else {
+          layout.default_tab_template = tabFromNode(child, templates);
+        }
+        break;
+      case 'new_tab_template':
+        if (layout.new_tab_template) {
+          remaining.push(child);
+        } else {
+          layout.new_tab_template = tabFromNode(child, templates);
+        }
+        break;
+      case 'swap_tiled_layout':
+        (layout.swap_tiled_layouts ??= []).push(swapLayoutFromNode(child, templates, false));
+        break;
+      case 'swap_floating_layout':
+        (layout.swap_floating_layouts ??= []).push(swapLayoutFromNode(child, templates, true));
+        break;
+      default:
+        if (isPaneNode(child, templates)) {
+          (layout.panes ??= []).push(paneFromNode(child, templates));
+        } else if (templates.tabs.has(child.name)) {
+          layout.tabs.push(tabFromNode(child, templates));
+        } else {
+          remaining.push(child);
+        }
+    }
+  }
+
+  assignExtras(layout, [...layoutNode.args], props, remaining);
+
+  const others = nodes.filter(node => node !== layoutNode);
+  if (others.length > 0) {
+    layout.top_level_nodes = others.map(stripPositions);
+  }
+
+  return layout;
+}
+
+/**
+ * Parse KDL layout text into the typed layout model
+ */
+export function parseLayout(content: string, name: string = 'layout'): ZellijLayout {
+  return layoutFromKdl(parseKdl(content), name);
+}
+
+function node(name: string, props: Record<string, KdlValue> = {}, children: KdlNode[] = [], args: KdlValue[] = []): KdlNode {
+  return { name, args, props, children };
+}
+
+function withExtras(target: KdlNode, extras: KdlExtras): KdlNode {
+  target.args.push(...(extras.extra_args ?? []));
+  Object.assign(target.props, extras.extra_props ?? {});
+  target.children.push(...(extras.extra_nodes ?? []));
+  return target;
+}
+
+function copyFields(source: object, fields: readonly string[], props: Record<string, KdlValue>): void {
+  for (const field of fields) {
+    const value = (source as Record<string, unknown>)[field];
+    if (value !== undefined) {
+      props[field] = value as KdlValue;
+    }
+  }
+}
+
+function paneToNode(pane: LayoutPane): KdlNode {
+  const name = pane.children_placeholder ? 'children' : pane.template ?? 'pane';
+  const props: Record<string, KdlValue> = {};
+
+  copyFields(pane, PANE_STRING_FIELDS, props);
+  copyFields(pane, PANE_DIMENSION_FIELDS, props);
+  copyFields(pane, PANE_BOOLEAN_FIELDS, props);
+
+  const children: KdlNode[] = [];
+
+  if (pane.args && pane.args.length > 0) {
+    children.push(node('args', {}, [], [...pane.args]));
+  }
+
+  if (pane.plugin) {
+    children.push(pluginToNode(pane.plugin));
+  }
+
+  for (const child of pane.panes ?? []) {
+    children.push(paneToNode(child));
+  }
+
+  return withExtras(node(name, props, children), pane);
+}
+
+function pluginToNode(plugin: LayoutPlugin): KdlNode {
+  const children = Object.entries(plugin.configuration ?? {}).map(([key, value]) => node(key, {}, [], [value]));
+  return withExtras(node('plugin', { location: plugin.location }, children), plugin);
+}
+
+function tabToNode(tab: SwapLayoutVariant, defaultName: string): KdlNode {
+  const props: Record<string, KdlValue> = {};
+
+  copyFields(tab, TAB_STRING_FIELDS, props);
+  copyFields(tab, TAB_BOOLEAN_FIELDS, props);
+  copyFields(tab, SWAP_CONSTRAINT_FIELDS, props);
+
+  const children = (tab.panes ?? []).map(paneToNode);
+
+  if (tab.floating_panes) {
+    children.push(node('floating_panes', {}, tab.floating_panes.map(paneToNode)));
+  }
+
+  return withExtras(node(tab.template ?? defaultName, props, children), tab);
+}
+
+function swapLayoutToNode(swap: SwapLayout, floating: boolean): KdlNode {
+  const props: Record<string, KdlValue> = {};
+  if (swap.name !== undefined) {
+    props.name = swap.name;
+  }
+
+  const children = swap.layouts.map(variant => tabToNode(variant, floating ? 'floating_panes' : 'tab'));
+  return withExtras(node(floating ? 'swap_floating_layout' : 'swap_tiled_layout', props, children), swap);
+}
+
+/**
+ * Build KDL nodes from the typed layout model
+ */
+export function layoutToKdl(layout: ZellijLayout): KdlNode[] {
+  if (!layout || typeof layout !== 'object') {
+    throw new ValidationError('Layout must be an object');
+  }
+
+  const children: KdlNode[] = [];
+
+  if (layout.cwd !== undefined) {
+    children.push(node('cwd', {}, [], [layout.cwd]));
+  }
+
+  for (const template of layout.pane_templates ?? []) {
+    children.push(paneToNode({ ...template, template: 'pane_template' }));
+  }
+
+  for (const template of layout.tab_templates ?? []) {
+    children.push(tabToNode(template, 'tab_template'));
+  }
+
+  if (layout.default_tab_template) {
+    children.push(tabToNode(layout.default_tab_template, 'default_tab_template'));
+  }
+
+  for (const pane of layout.panes ?? []) {
+    children.push(paneToNode(pane));
+  }
+
+  for (const tab of layout.tabs ?? []) {
+    if (!Array.isArray(tab.panes)) {
+      throw new ValidationError('Every tab must have a panes array');
+    }
+    children.push(tabToNode(tab, 'tab'));
+  }
+
+  if (layout.floating_panes) {
+    children.push(node('floating_panes', {}, layout.floating_panes.map(paneToNode)));
+  }
+
+  if (layout.new_tab_template) {
+    children.push(tabToNode(layout.new_tab_template, 'new_tab_template'));
+  }
+
+  for (const swap of layout.swap_tiled_layouts ?? []) {
+    children.push(swapLayoutToNode(swap, false));
+  }
+
+  for (const swap of layout.swap_floating_layouts ?? []) {
+    children.push(swapLayoutToNode(swap, true));
+  }
+
+  return [withExtras(node('layout', {}, children), layout), ...(layout.top_level_nodes ?? [])];
+}
+
+/**
+ * Serialize the typed layout model to KDL text
+ */
+export function serializeLayout(layout: ZellijLayout): string {
+  return serializeKdl(layoutToKdl(layout));
+}
+
+function resolveCwd(base: string | undefined, cwd: string | undefined): string | undefined {
+  if (!cwd) {
+    return base;
+  }
+  return base && !posix.isAbsolute(cwd) ? posix.join(base, cwd) : cwd;
+}
+
+function summarizePanes(panes: LayoutPane[], cwd: string | undefined, floating: boolean, summaries: LayoutPaneSummary[]): void {
+  for (const pane of panes) {
+    if (pane.children_placeholder) {
+      continue;
+    }
+
+    const paneCwd = resolveCwd(cwd, pane.cwd);
+
+    // Only leaf panes run anything; containers just pass their cwd down
+    if (pane.panes && pane.panes.length > 0) {
+      summarizePanes(pane.panes, paneCwd, floating, summaries);
+      continue;
+    }
+
+    const summary: LayoutPaneSummary = { focused: pane.focus === true, floating };
+    if (pane.name !== undefined) {
+      summary.name = pane.name;
+    }
+    if (pane.plugin) {
+      summary.plugin = pane.plugin.location;
+    } else {
+      if (pane.command !== undefined) {
+        summary.command = pane.command;
+      }
+      if (pane.args && pane.args.length > 0) {
+        summary.args = pane.args;
+      }
+      if (paneCwd !== undefined) {
+        summary.cwd = paneCwd;
+      }
+    }
+    summaries.push(summary);
+  }
+}
+
+/**
+ * Flatten a layout into per-tab pane metadata: names, commands, cwd and focus
+ */
+export function summarizeLayout(layout: ZellijLayout): LayoutTabSummary[] {
+  const tabs: LayoutTab[] = layout.tabs.length > 0 || !layout.panes ? layout.tabs : [{ panes: layout.panes }];
+
+  return tabs.map((tab, index) => {
+    const cwd = resolveCwd(layout.cwd, tab.cwd);
+    const panes: LayoutPaneSummary[] = [];
+
+    summarizePanes(tab.panes, cwd, false, panes);
+    summarizePanes(tab.floating_panes ?? [], cwd, true, panes);
+
+    const summary: LayoutTabSummary = {
+      name: tab.name ?? `Tab #${index + 1}`,
+      position: index,
+      focused: tab.focus === true,
+      floatingPanesVisible: (tab.floating_panes ?? []).length > 0 && tab.hide_floating_panes !== true,
+      panes
+    };
+    if (cwd !== undefined) {
+      summary.cwd = cwd;
+    }
+    return summary;
+  });
+}
+
+const PANE_PROPERTIES = new Set<string>([...PANE_STRING_FIELDS, ...PANE_BOOLEAN_FIELDS, ...PANE_DIMENSION_FIELDS, 'contents_file']);
+const FLOATING_ONLY_PROPERTIES = new Set<string>(['x', 'y', 'width', 'height', 'pinned']);
+const TAB_PROPERTIES = new Set<string>([...TAB_STRING_FIELDS, ...TAB_BOOLEAN_FIELDS]);
+
+/**
+ * Walks a parsed layout and collects diagnostics against Zellij's layout grammar
+ */
+class LayoutChecker {
+  readonly diagnostics: LayoutDiagnostic[] = [];
+  private templates: TemplateNames = { panes: new Set(), tabs: new Set() };
+
+  check(nodes: KdlNode[]): void {
+    const layoutNodes = nodes.filter(node => node.name === 'layout');
+
+    if (layoutNodes.length === 0) {
+      this.report('error', 'Missing top-level "layout" node');
+      return;
+    }
+
+    for (const extra of layoutNodes.slice(1)) {
+      this.report('error', 'Only one "layout" node is allowed', extra);
+    }
+
+    for (const node of nodes) {
+      if (node.name !== 'layout') {
+        this.report('warning', `Top-level node "${node.name}" is not part of the layout and will be ignored`, node);
+      }
+    }
+
+    this.checkLayoutNode(layoutNodes[0]);
+  }
+
+  private checkLayoutNode(layout: KdlNode): void {
+    this.checkNoArgs(layout);
+    this.checkNoProps(layout);
+    this.collectTemplates(layout);
+
+    let firstPane: KdlNode | undefined;
+    let firstTab: KdlNode | undefined;
+    const focusedTabs: KdlNode[] = [];
+
+    for (const child of layout.children) {
+      switch (child.name) {
+        case 'tab':
+          firstTab ??= child;
+          this.checkTab(child, false);
+          break;
+        case 'floating_panes':
+          this.checkFloatingPanes(child, false);
+          break;
+        case 'pane_template':
+          this.checkPane(child, false, true);
+          break;
+        case 'tab_template':
+        case 'default_tab_template':
+        case 'new_tab_template':
+          this.checkTab(child, true);
+          break;
+        case 'swap_tiled_layout':
+          this.checkSwapLayout(child, false);
+          break;
+        case 'swap_floating_layout':
+          this.checkSwapLayout(child, true);
+          break;
+        case 'cwd':
+          this.checkSingleArg(child, 'string');
+          break;
+        default:
+          if (this.isPane(child)) {
+            firstPane ??= child;
+            this.checkPane(child, false, false);
+          } else if (this.templates.tabs.has(child.name)) {
+            firstTab ??= child;
+            this.checkTab(child, false);
+          } else {
+            this.report('error', `Unknown node "${child.name}" in layout`, child);
+          }
+      }
+
+      if ((child.name === 'tab' || this.templates.tabs.has(child.name)) && this.setting(child, 'focus') === true) {
+        focusedTabs.push(child);
+      }
+    }
+
+    if (firstPane && firstTab) {
+      this.report('error', 'A layout cannot mix top-level panes and tabs; move the panes into a tab or default_tab_template', firstPane);
+    }
+
+    for (const tab of focusedTabs.slice(1)) {
+      this.report('warning', 'More than one tab has focus=true; only the first one will be focused', tab);
+    }
+
+    this.checkSizes(layout.children.filter(child => this.isPane(child)), layout);
+  }
+
+  private collectTemplates(layout: KdlNode): void {
+    for (const child of layout.children) {
+      if (child.name !== 'pane_template' && child.name !== 'tab_template') {
+        continue;
+      }
+
+      const name = child.props.name;
+      if (typeof name !== 'string' || name === '') {
+        this.report('error', `"${child.name}" requires a name property`, child);
+        continue;
+      }
+
+      const names = child.name === 'pane_template' ? this.templates.panes : this.templates.tabs;
+      if (names.has(name)) {
+        this.report('error', `Duplicate template name "${name}"`, child);
+      } else if (['pane', 'tab', 'children', 'plugin', 'floating_panes'].includes(name)) {
+        this.report('error', `Template name "${name}" shadows a built-in node`, child);
+      }
+      names.add(name);
+    }
+  }
+
+  private checkTab(tab: KdlNode, inTemplate: boolean, constraints: readonly string[] = []): void {
+    this.checkNoArgs(tab);
+
+    for (const [key, value] of Object.entries(tab.props)) {
+      if (constraints.includes(key)) {
+        this.checkPaneCount(tab, key, value);
+      } else if (TAB_PROPERTIES.has(key)) {
+        this.checkSettingValue(tab, key, value);
+      } else {
+        this.report('error', `Unknown property "${key}" on ${tab.name}`, tab);
+      }
+    }
+
+    for (const child of tab.children) {
+      if (this.isSettingNode(child, TAB_PROPERTIES)) {
+        this.checkSettingValue(child, child.name, child.args[0]);
+      } else if (child.name === 'children') {
+        if (!inTemplate) {
+          this.report('error', '"children" is only allowed inside templates', child);
+        }
+      } else if (this.isPane(child)) {
+        this.checkPane(child, false, inTemplate);
+      } else if (child.name === 'floating_panes') {
+        this.checkFloatingPanes(child, inTemplate);
+      } else {
+        this.report('error', `Unknown node "${child.name}" in ${tab.name}`, child);
+      }
+    }
+
+    if (tab.name === 'tab_template' && !this.containsChildren(tab)) {
+      this.report('warning', `Tab template "${String(tab.props.name ?? '')}" has no "children" node, so tabs using it cannot add panes`, tab);
+    }
+
+    this.checkSizes(tab.children.filter(child => this.isPane(child)), tab);
+  }
+
+  private checkPane(pane: KdlNode, floating: boolean, inTemplate: boolean): void {
+    if (pane.name === 'children') {
+      if (!inTemplate) {
+        this.report('error', '"children" is only allowed inside templates', pane);
+      }
+      return;
+    }
+
+    this.checkNoArgs(pane);
+
+    for (const [key, value] of Object.entries(pane.props)) {
+      if (!PANE_PROPERTIES.has(key)) {
+        this.report('error', `Unknown property "${key}" on ${pane.name}`, pane);
+        continue;
+      }
+      this.checkSettingValue(pane, key, value);
+      if (!floating && FLOATING_ONLY_PROPERTIES.has(key)) {
+        this.report('warning', `"${key}" only applies to floating panes and will be ignored`, pane);
+      }
+    }
+
+    const command = this.setting(pane, 'command');
+    let plugin: KdlNode | undefined;
+    let args: KdlNode | undefined;
+
+    for (const child of pane.children) {
+      if (this.isSettingNode(child, PANE_PROPERTIES)) {
+        this.checkSettingValue(child, child.name, child.args[0]);
+        if (!floating && FLOATING_ONLY_PROPERTIES.has(child.name)) {
+          this.report('warning', `"${child.name}" only applies to floating panes and will be ignored`, child);
+        }
+      } else if (child.name === 'args') {
+        args = child;
+        if (child.args.length === 0) {
+          this.report('warning', '"args" has no arguments', child);
+        } else if (child.args.some(arg => typeof arg !== 'string')) {
+          this.report('error', 'Command arguments must be strings', child);
+        }
+      } else if (child.name === 'plugin') {
+        if (plugin) {
+          this.report('error', 'A pane can only host one plugin', child);
+        }
+        plugin = child;
+        this.checkPlugin(child);
+      } else if (this.isPane(child)) {
+        this.checkPane(child, floating, inTemplate);
+      } else {
+        this.report('error', `Unknown node "${child.name}" in ${pane.name}`, child);
+      }
+    }
+
+    if (args && command === undefined) {
+      this.report('warning', '"args" has no effect without a command', args);
+    }
+
+    if (plugin && command !== undefined) {
+      this.report('error', 'A pane cannot have both a command and a plugin', pane);
+    }
+
+    if (this.setting(pane, 'edit') !== undefined && (command !== undefined || plugin)) {
+      this.report('error', 'A pane cannot combine "edit" with a command or plugin', pane);
+    }
+
+    const childPanes = pane.children.filter(child => this.isPane(child));
+    if (childPanes.length > 0 && (command !== undefined || plugin)) {
+      this.report('error', 'A pane with child panes cannot run a command or plugin itself', pane);
+    }
+
+    this.checkSizes(childPanes, pane);
+  }
+
+  private checkPlugin(plugin: KdlNode): void {
+    const location = plugin.props.location ?? plugin.args[0];
+
+    if (location === undefined) {
+      this.report('error', 'Plugin is missing a location', plugin);
+    } else if (typeof location !== 'string' || location.trim() === '') {
+      this.report('error', 'Plugin location must be a non-empty string', plugin);
+    }
+
+    for (const key of Object.keys(plugin.props)) {
+      if (key !== 'location') {
+        this.report('warning', `Unknown property "${key}" on plugin; configuration belongs in child nodes`, plugin);
+      }
+    }
+  }
+
+  private checkFloatingPanes(node: KdlNode, inTemplate: boolean, constraints: readonly string[] = []): void {
+    this.checkNoArgs(node);
+
+    for (const [key, value] of Object.entries(node.props)) {
+      if (constraints.includes(key)) {
+        this.checkPaneCount(node, key, value);
+      } else {
+        this.report('error', `Unknown property "${key}" on floating_panes`, node);
+      }
+    }
+
+    for (const child of node.children) {
+      if (this.isPane(child)) {
+        this.checkPane(child, true, inTemplate);
+        if (this.setting(child, 'size') !== undefined) {
+          this.report('warning', '"size" is ignored for floating panes; use width and height', child);
+        }
+      } else {
+        this.report('error', `Unknown node "${child.name}" in floating_panes`, child);
+      }
+    }
+  }
+
+  private checkSwapLayout(swap: KdlNode, floating: boolean): void {
+    this.checkNoArgs(swap);
+
+    for (const [key, value] of Object.entries(swap.props)) {
+      if (key !== 'name') {
+        this.report('error', `Unknown property "${key}" on ${swap.name}`, swap);
+      } else if (typeof value !== 'string') {
+        this.report('error', 'Swap layout name must be a string', swap);
+      }
+    }
+
+    for (const child of swap.children) {
+      if (floating && child.name === 'floating_panes') {
+        this.checkFloatingPanes(child, true, SWAP_CONSTRAINT_FIELDS);
+      } else if (!floating && (child.name === 'tab' || this.templates.tabs.has(child.name))) {
+        this.checkTab(child, true, SWAP_CONSTRAINT_FIELDS);
+      } else {
+        this.report('error', `Unknown node "${child.name}" in ${swap.name}`, child);
+      }
+    }
+  }
+
+  /**
+   * Validate sibling pane sizes and make sure percentages fit in their parent.
+   * An overflow is reported at the first pane that takes the total past 100%.
+   */
+  private checkSizes(panes: KdlNode[], parent: KdlNode): void {
+    let percentTotal = 0;
+    let overflow: KdlNode | undefined;
+
+    for (const pane of panes) {
+      const size = this.setting(pane, 'size');
+      const percent = this.percentOf(size);
+      if (percent !== undefined) {
+        percentTotal += percent;
+        if (percentTotal > 100 && !overflow) {
+          overflow = pane;
+        }
+      }
+    }
+
+    if (overflow) {
+      this.report('error', `Pane sizes in ${parent.name} add up to ${percentTotal}%, more than 100%`, overflow);
+    }
+  }
+
+  private checkSettingValue(node: KdlNode, key: string, value: KdlValue): void {
+    if ((PANE_BOOLEAN_FIELDS as readonly string[]).includes(key) || (TAB_BOOLEAN_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'boolean') {
+        this.report('error', `"${key}" must be true or false`, node);
+      }
+    } else if (key === 'split_direction') {
+      if (value !== 'horizontal' && value !== 'vertical') {
+        this.report('error', `Invalid split_direction ${JSON.stringify(value)}; expected "horizontal" or "vertical"`, node);
+      }
+    } else if ((PANE_DIMENSION_FIELDS as readonly string[]).includes(key)) {
+      this.checkDimension(node, key, value);
+    } else if (typeof value !== 'string') {
+      this.report('error', `"${key}" must be a string`, node);
+    } else if (value === '' && (key === 'command' || key === 'edit')) {
+      this.report('error', `"${key}" must not be empty`, node);
+    }
+  }
+
+  private checkDimension(node: KdlNode, key: string, value: KdlValue): void {
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < (key === 'x' || key === 'y' ? 0 : 1)) {
+        this.report('error', `Invalid ${key} ${value}; expected a whole number of cells or a percentage like "50%"`, node);
+      }
+      return;
+    }
+
+    if (typeof value !== 'string' || !/^\d+%?$/.test(value)) {
+      this.report('error', `Invalid ${key} ${JSON.stringify(value)}; expected a whole number of cells or a percentage like "50%"`, node);
+      return;
+    }
+
+    const percent = this.percentOf(value);
+    if (percent !== undefined && (percent > 100 || (percent === 0 && key !== 'x' && key !== 'y'))) {
+      this.report('error', `Invalid ${key} "${value}"; percentages must be between 1% and 100%`, node);
+    }
+  }
+
+  private checkPaneCount(node: KdlNode, key: string, value: KdlValue): void {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      this.report('error', `"${key}" must be a non-negative whole number`, node);
+    }
+  }
+
+  private checkSingleArg(node: KdlNode, type: 'string'): void {
+    if (node.args.length !== 1 || typeof node.args[0] !== type) {
+      this.report('error', `"${node.name}" expects a single ${type} argument`, node);
+    }
+  }
+
+  private checkNoArgs(node: KdlNode): void {
+    if (node.args.length > 0) {
+      this.report('error', `"${node.name}" does not take positional arguments`, node);
+    }
+  }
+
+  private checkNoProps(node: KdlNode): void {
+    for (const key of Object.keys(node.props)) {
+      this.report('error', `Unknown property "${key}" on ${node.name}`, node);
+    }
+  }
+
+  private containsChildren(node: KdlNode): boolean {
+    return node.children.some(child => child.name === 'children' || this.containsChildren(child));
+  }
+
+  private isPane(node: KdlNode): boolean {
+    return isPaneNode(node, this.templates);
+  }
+
+  private isSettingNode(node: KdlNode, allowed: Set<string>): boolean {
+    return allowed.has(node.name) && node.args.length === 1 && Object.keys(node.props).length === 0 && node.children.length === 0;
+  }
+
+  // Read a setting given either as a property or a single-argument child node
+  private setting(node: KdlNode, key: string): KdlValue | undefined {
+    if (key in node.props) {
+      return node.props[key];
+    }
+    const child = node.children.find(candidate => candidate.name === key && candidate.args.length === 1);
+    return child?.args[0];
+  }
+
+  private percentOf(value: KdlValue | undefined): number | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const match = value.match(/^(\d+)%$/);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  private report(severity: LayoutDiagnostic['severity'], message: string, node?: KdlNode): void {
+    const position = node?.position ?? { line: 1, column: 1 };
+    this.diagnostics.push({ severity, message, line: position.line, column: position.column });
+  }
+}
+
+/**
+ * Check KDL layout text against Zellij's layout grammar without running Zellij
+ */
+export function checkLayout(content: string): LayoutDiagnostic[] {
+  let nodes: KdlNode[];
+
+  try {
+    nodes = parseKdl(content);
+  } catch (error) {
+    if (error instanceof KdlParseError) {
+      const message = error.message.replace(` (line ${error.line}, column ${error.column})`, '');
+      return [{ severity: 'error', message, line: error.line, column: error.column }];
+    }
+    throw error;
+  }
+
+  const checker = new LayoutChecker();
+  checker.check(nodes);
+
+  return checker.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
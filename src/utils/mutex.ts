@@ -0,0 +1,29 @@
+// Promise-based mutual exclusion for multi-step Zellij actions
+
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Run a task once every previously queued task has settled
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Held by every action that moves focus, and by multi-step actions that need
+ * focus to stay put, across all tool modules
+ */
+export const focusLock = new Mutex();
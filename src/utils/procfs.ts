@@ -0,0 +1,114 @@
+// Process sampling from Linux /proc
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { ProcessSample, ProcessTreeNode } from '../types/zellij.js';
+
+// Clock ticks per second for utime/stime; 100 on every mainstream Linux build
+export const CLOCK_TICKS = 100;
+
+export function hasProcfs(): boolean {
+  return existsSync('/proc/self/stat');
+}
+
+/**
+ * Sample one process, or undefined if it no longer exists
+ */
+export function readProcess(pid: number): ProcessSample | undefined {
+  let stat: string;
+  try {
+    stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  // comm is parenthesised and may itself contain spaces or parentheses
+  const open = stat.indexOf('(');
+  const close = stat.lastIndexOf(')');
+  const comm = stat.slice(open + 1, close);
+  // fields[0] is field 3 (state) in proc(5) numbering
+  const fields = stat.slice(close + 2).split(' ');
+  const field = (n: number) => fields[n - 3];
+
+  const sample: ProcessSample = {
+    pid,
+    ppid: Number(field(4)),
+    comm,
+    state: field(3),
+    cpuTicks: Number(field(14)) + Number(field(15)),
+    threads: Number(field(20)),
+    rssKb: 0
+  };
+
+  // Field 52 holds the exit status once the process is a zombie (Linux 3.5+)
+  if (sample.state === 'Z' && field(52) !== undefined) {
+    const status = Number(field(52));
+    sample.exitCode = status & 0x7f ? null : (status >> 8) & 0xff;
+  }
+
+  try {
+    const status = readFileSync(`/proc/${pid}/status`, 'utf-8');
+    sample.rssKb = Number(status.match(/^VmRSS:\s+(\d+)/m)?.[1] ?? 0);
+    const peak = status.match(/^VmHWM:\s+(\d+)/m);
+    if (peak) {
+      sample.peakRssKb = Number(peak[1]);
+    }
+  } catch {
+    // Exited between reads
+  }
+
+  try {
+    const cmdline = readFileSync(`/proc/${pid}/cmdline`, 'utf-8').split('\0').filter(Boolean).join(' ');
+    if (cmdline) {
+      sample.cmdline = cmdline;
+    }
+  } catch {
+    // Kernel threads and zombies have no command line
+  }
+
+  return sample;
+}
+
+/**
+ * Sample every visible process
+ */
+export function readAllProcesses(): ProcessSample[] {
+  const samples: ProcessSample[] = [];
+  for (const entry of readdirSync('/proc')) {
+    if (/^\d+$/.test(entry)) {
+      const sample = readProcess(Number(entry));
+      if (sample) {
+        samples.push(sample);
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Build the tree of `rootPid` and all of its descendants
+ */
+export function buildProcessTree(rootPid: number, samples: ProcessSample[]): ProcessTreeNode | undefined {
+  const byPid = new Map(samples.map(sample => [sample.pid, sample]));
+  const children = new Map<number, ProcessSample[]>();
+  for (const sample of samples) {
+    const siblings = children.get(sample.ppid) ?? [];
+    siblings.push(sample);
+    children.set(sample.ppid, siblings);
+  }
+
+  const build = (sample: ProcessSample): ProcessTreeNode => ({
+    ...sample,
+    children: (children.get(sample.pid) ?? []).map(build)
+  });
+
+  const root = byPid.get(rootPid);
+  return root ? build(root) : undefined;
+}
+
+/**
+ * Flatten a tree into its processes, root first
+ */
+export function flattenProcessTree(node: ProcessTreeNode): ProcessSample[] {
+  const { children, ...sample } = node;
+  return [sample, ...children.flatMap(flattenProcessTree)];
+}
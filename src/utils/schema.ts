@@ -0,0 +1,120 @@
+// JSON Schema subset used by tool input schemas, with a checker for call
+// arguments and the matching TypeScript argument types
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number)[];
+  items?: JsonSchema;
+  properties?: { readonly [name: string]: JsonSchema };
+  required?: readonly string[];
+}
+
+export interface ObjectSchema extends JsonSchema {
+  type: 'object';
+  properties: { readonly [name: string]: JsonSchema };
+}
+
+type PrimitiveOf<T> =
+  T extends 'string' ? string :
+  T extends 'number' | 'integer' ? number :
+  T extends 'boolean' ? boolean :
+  never;
+
+// Value type of a property schema; objects without properties are free-form
+export type SchemaValue<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'array'; items: infer I } ? SchemaValue<I>[] :
+  S extends { type: 'object'; properties: infer P extends ObjectSchema['properties'] } ? SchemaObject<P, S extends { required: readonly (infer R)[] } ? R : never> :
+  S extends { type: 'object' } ? Record<string, unknown> :
+  S extends { type: readonly (infer T)[] } ? PrimitiveOf<T> :
+  S extends { type: infer T } ? PrimitiveOf<T> :
+  unknown;
+
+type SchemaObject<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: SchemaValue<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: SchemaValue<P[K]>;
+};
+
+// Arguments a handler receives once its input schema has been checked
+export type SchemaArgs<S extends ObjectSchema> = SchemaValue<S>;
+
+/**
+ * Check a value against a schema, returning one message per problem.
+ * Unknown object properties are rejected, and null optional properties are
+ * treated as omitted.
+ */
+export function checkSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of: ${schema.enum.join(', ')}`];
+  }
+
+  if (schema.type) {
+    const types: readonly JsonSchemaType[] = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} must be ${types.map(type => (/^[aeiou]/.test(type) ? 'an ' : 'a ') + type).join(' or ')}`];
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.flatMap((item, index) => checkSchema(item, schema.items!, `${path}[${index}]`));
+  }
+
+  if (isPlainObject(value) && schema.properties) {
+    const errors: string[] = [];
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined || value[name] === null) {
+        errors.push(`${path ? `${path}.` : ''}${name} is required`);
+      }
+    }
+    for (const [name, item] of Object.entries(value)) {
+      const property = Object.hasOwn(schema.properties, name) ? schema.properties[name] : undefined;
+      if (!property) {
+        errors.push(`${path ? `${path}.` : ''}${name} is not a known argument`);
+      } else if (item !== undefined && item !== null) {
+        errors.push(...checkSchema(item, property, path ? `${path}.${name}` : name));
+      }
+    }
+    return errors;
+  }
+
+  return [];
+}
+
+/**
+ * Copy of checked arguments without null properties, so handlers see
+ * omitted optional arguments as undefined
+ */
+export function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(dropNulls);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== null).map(([name, item]) => [name, dropNulls(item)]));
+  }
+  return value;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
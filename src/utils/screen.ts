@@ -0,0 +1,152 @@
+// Helpers for working with dumped pane screens
+
+import { stripAnsi } from './ansi.js';
+
+export interface LineSelection {
+  lines: string[];
+  startLine: number; // 1-based, inclusive; 0 when nothing was selected
+  endLine: number;
+  totalLines: number;
+}
+
+/**
+ * Split a screen dump into lines, dropping trailing padding and blank rows.
+ * With the pane's width, soft-wrapped rows are re-joined first, while their
+ * trailing spaces are still part of the text.
+ */
+export function screenLines(screen: string, wrapWidth?: number): string[] {
+  let rows = screen.replace(/\r\n/g, '\n').split('\n');
+  if (wrapWidth !== undefined) {
+    rows = joinWrappedLines(rows, wrapWidth);
+  }
+
+  const lines = rows.map(line => line.trimEnd());
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+/**
+ * Re-join rows the terminal soft-wrapped. Zellij dumps one row per line, so a
+ * row that fills the pane width is assumed to continue on the next one. The
+ * width has to come from the caller: nothing in the dump says which rows wrapped.
+ */
+export function joinWrappedLines(lines: string[], width: number): string[] {
+  const visibleLength = (line: string) => stripAnsi(line).length;
+  const joined: string[] = [];
+  let current: string | undefined;
+
+  for (const line of lines) {
+    current = current === undefined ? line : current + line;
+    if (visibleLength(line) < width) {
+      joined.push(current);
+      current = undefined;
+    }
+  }
+
+  if (current !== undefined) {
+    joined.push(current);
+  }
+
+  return joined;
+}
+
+/**
+ * Pick a 1-based inclusive line range, or the last `tail` lines
+ */
+export function selectLines(lines: string[], options: { tail?: number; startLine?: number; endLine?: number } = {}): LineSelection {
+  const totalLines = lines.length;
+  let start = 1;
+  let end = totalLines;
+
+  if (options.startLine !== undefined || options.endLine !== undefined) {
+    start = Math.max(1, options.startLine ?? 1);
+    end = Math.min(totalLines, options.endLine ?? totalLines);
+  }
+
+  if (options.tail !== undefined) {
+    start = Math.max(start, end - options.tail + 1);
+  }
+
+  if (start > end) {
+    return { lines: [], startLine: 0, endLine: 0, totalLines };
+  }
+
+  return { lines: lines.slice(start - 1, end), startLine: start, endLine: end, totalLines };
+}
+
+/**
+ * Find where new output starts: the index just past the last occurrence of
+ * `anchor` (the tail of the previous read), ending at or before `before`.
+ * Returns undefined if the anchor is gone, e.g. after a clear or once it
+ * scrolled out of the scrollback.
+ */
+export function findAfterAnchor(lines: string[], anchor: string[], before: number = lines.length): number | undefined {
+  if (anchor.length === 0) {
+    return 0;
+  }
+
+  for (let end = Math.min(before, lines.length); end >= anchor.length; end--) {
+    let matches = true;
+    for (let i = 0; i < anchor.length; i++) {
+      if (lines[end - anchor.length + i] !== anchor[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      return end;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Where a REPL exchange stands on one screen: the rows after the history
+ * `anchor` and the echo of the input, plus the prompt once it is back on the
+ * last row. Undefined while the echo isn't on screen yet.
+ *
+ * Output can repeat the anchor, e.g. when the same command runs again, so
+ * earlier occurrences are tried until one is followed by the echo.
+ */
+export function replResponse(lines: string[], anchor: string[], echo: string, prompt: RegExp): { lines: string[]; prompt?: string } | undefined {
+  let start = findAfterAnchor(lines, anchor);
+  if (start === undefined) {
+    // The anchor was cleared or scrolled away; look at the whole screen
+    start = 0;
+    anchor = [];
+  }
+
+  while (start !== undefined) {
+    const region = lines.slice(start);
+    const echoRow = echo ? findEcho(region, echo) : 0;
+    if (echoRow !== -1) {
+      const last = region.length - 1;
+      if (last > echoRow && prompt.test(region[last])) {
+        return { lines: region.slice(echoRow + 1, last), prompt: region[last] };
+      }
+      return { lines: region.slice(echoRow + 1) };
+    }
+    start = anchor.length > 0 && start > 0 ? findAfterAnchor(lines, anchor, start - 1) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * The row on which `text` has been shown in full, possibly soft-wrapped
+ * over several rows; -1 if it hasn't been
+ */
+function findEcho(lines: string[], text: string): number {
+  let shown = '';
+  for (let i = 0; i < lines.length; i++) {
+    shown += lines[i];
+    if (shown.includes(text)) {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,101 @@
+// Incremental reading of growing files and line-oriented streams
+
+import { existsSync, statSync, openSync, readSync, closeSync } from 'fs';
+import { StringDecoder } from 'string_decoder';
+
+// A "line" this long without a newline is emitted as is rather than buffered further
+const MAX_PARTIAL_LINE = 1024 * 1024;
+
+export interface LineBatch {
+  lines: string[]; // Complete lines, without line endings
+  before: string[]; // Up to `keep` lines that preceded them, for context
+  firstLineNumber: number; // 1-based number of lines[0]
+}
+
+/**
+ * Split chunks of text into lines, carrying partial lines over to the next
+ * chunk and numbering lines across chunks
+ */
+export class LineBuffer {
+  private partial = '';
+  private count = 0;
+  private recent: string[] = [];
+
+  constructor(private readonly keep: number = 0) {}
+
+  push(chunk: string): LineBatch {
+    const parts = (this.partial + chunk).split('\n');
+    this.partial = parts.pop()!;
+
+    if (this.partial.length > MAX_PARTIAL_LINE) {
+      parts.push(this.partial);
+      this.partial = '';
+    }
+
+    return this.emit(parts.map(line => line.replace(/\r$/, '')));
+  }
+
+  /**
+   * Emit the trailing line that had no newline, e.g. at end of stream
+   */
+  flush(): LineBatch {
+    const rest = this.partial;
+    this.partial = '';
+    return this.emit(rest ? [rest.replace(/\r$/, '')] : []);
+  }
+
+  private emit(lines: string[]): LineBatch {
+    const batch: LineBatch = { lines, before: this.recent, firstLineNumber: this.count + 1 };
+    this.count += lines.length;
+    if (this.keep > 0) {
+      this.recent = [...this.recent, ...lines].slice(-this.keep);
+    }
+    return batch;
+  }
+}
+
+/**
+ * Read a file from a remembered byte offset, so only appended data is read
+ * on each call. Starts over if the file shrinks (truncated or rotated).
+ */
+export class FileTail {
+  offset = 0;
+  private decoder = new StringDecoder('utf8');
+
+  constructor(readonly path: string, fromEnd: boolean = false) {
+    if (fromEnd && existsSync(path)) {
+      this.offset = statSync(path).size;
+    }
+  }
+
+  /**
+   * Yield newly appended text in chunks; stopping early leaves the offset
+   * just past the last chunk yielded
+   */
+  *read(chunkSize: number = 1024 * 1024): Generator<string> {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    const size = statSync(this.path).size;
+    if (size < this.offset) {
+      this.offset = 0;
+      this.decoder = new StringDecoder('utf8');
+    }
+
+    const fd = openSync(this.path, 'r');
+    try {
+      const buffer = Buffer.alloc(Math.min(chunkSize, Math.max(size - this.offset, 1)));
+      while (this.offset < size) {
+        const bytesRead = readSync(fd, buffer, 0, Math.min(buffer.length, size - this.offset), this.offset);
+        if (bytesRead === 0) {
+          break;
+        }
+        this.offset += bytesRead;
+        yield this.decoder.write(buffer.subarray(0, bytesRead));
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+}
@@ -29,6 +29,38 @@ export class Validator {
     };
   }
   
+  // Optional --session target for action commands; throws on invalid names
+  static validateSessionTarget(sessionName?: string): string | undefined {
+    if (sessionName === undefined || sessionName === null || sessionName === '') {
+      return undefined;
+    }
+
+    const nameValidation = this.validateSessionName(sessionName);
+    if (!nameValidation.valid) {
+      throw new ValidationError(`Invalid session name: ${nameValidation.errors.join(', ')}`);
+    }
+
+    return nameValidation.sanitized;
+  }
+  
+  // Pane ID validation; bare numbers refer to terminal panes
+  static validatePaneId(id: string): ValidationResult {
+    const errors: string[] = [];
+
+    if (!id || typeof id !== 'string') {
+      errors.push('Pane ID is required and must be a string');
+    } else if (!/^(terminal_|plugin_)?\d+$/.test(id.trim())) {
+      errors.push(`Invalid pane ID format: ${id}. Expected format: 'terminal_1', 'plugin_1', or '1'`);
+    }
+
+    const sanitized = id?.trim();
+    return {
+      valid: errors.length === 0,
+      errors,
+      sanitized: errors.length === 0 && /^\d+$/.test(sanitized) ? `terminal_${sanitized}` : sanitized
+    };
+  }
+  
   // Command validation to prevent injection
   static validateCommand(command: string): ValidationResult {
     const errors: string[] = [];
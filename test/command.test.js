@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitCommandLine } from '../dist/utils/command.js';
+import { ValidationError } from '../dist/types/zellij.js';
+
+test('plain words split on any run of whitespace', () => {
+  assert.deepEqual(splitCommandLine('  ls   -la\t/tmp \n'), ['ls', '-la', '/tmp']);
+  assert.deepEqual(splitCommandLine(''), []);
+});
+
+test('quotes group words and can be joined to unquoted text', () => {
+  assert.deepEqual(splitCommandLine(`grep -e 'a b' "c d"`), ['grep', '-e', 'a b', 'c d']);
+  assert.deepEqual(splitCommandLine(`--name="my app" pre'fix'post`), ['--name=my app', 'prefixpost']);
+  assert.deepEqual(splitCommandLine(`echo '' ""`), ['echo', '', '']);
+});
+
+test('single quotes keep everything literally', () => {
+  assert.deepEqual(splitCommandLine(String.raw`echo 'a\b "c" $HOME'`), ['echo', String.raw`a\b "c" $HOME`]);
+});
+
+test('backslashes escape outside quotes, and only quotes and backslashes inside double quotes', () => {
+  assert.deepEqual(splitCommandLine(String.raw`touch my\ file \'x\'`), ['touch', 'my file', "'x'"]);
+  assert.deepEqual(splitCommandLine(String.raw`echo "say \"hi\" \\ \n"`), ['echo', String.raw`say "hi" \ \n`]);
+});
+
+test('nothing is expanded or interpreted by a shell', () => {
+  assert.deepEqual(splitCommandLine('echo $HOME; rm -rf * | cat'), ['echo', '$HOME;', 'rm', '-rf', '*', '|', 'cat']);
+});
+
+test('an unterminated quote is rejected', () => {
+  assert.throws(() => splitCommandLine(`echo "oops`), ValidationError);
+  assert.throws(() => splitCommandLine(`echo 'oops`), ValidationError);
+});
@@ -0,0 +1,11 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobTools } from '../dist/tools/jobs.js';
+import { ValidationError } from '../dist/types/zellij.js';
+
+test('a blank command is rejected without leaving a job behind', async () => {
+  assert.throws(() => JobTools.spawnJob('   '), ValidationError);
+
+  const status = await JobTools.status();
+  assert.equal(status.content[0].text, 'No jobs');
+});
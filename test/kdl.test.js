@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseKdl, serializeKdl } from '../dist/utils/kdl.js';
+import { parseLayout, serializeLayout } from '../dist/utils/layout.js';
+
+const LAYOUT = String.raw`layout {
+    pane_template name="editor" {
+        command "nvim"
+        args "--listen" "/tmp/nvim \"main\".sock"
+    }
+    tab_template name="with-bar" {
+        pane size=1 borderless=true {
+            plugin location="zellij:tab-bar"
+        }
+        children
+    }
+    with-bar name="code" focus=true {
+        editor cwd="src"
+        pane split_direction="vertical" {
+            pane name="tab\there" command="bash"
+            pane size="30%" command=r#"C:\path"#
+        }
+    }
+}
+`;
+
+function withoutPositions(nodes) {
+  return nodes.map(({ position, children, ...node }) => ({ ...node, children: withoutPositions(children) }));
+}
+
+test('quoted, escaped and raw strings survive a KDL round trip', () => {
+  const nodes = parseKdl(String.raw`node "a \"quoted\" word" r#"C:\raw"# tab="x\ty" "two words"=1`);
+  assert.deepEqual(nodes[0].args, ['a "quoted" word', 'C:\\raw']);
+  assert.deepEqual(nodes[0].props, { tab: 'x\ty', 'two words': 1 });
+
+  const serialized = serializeKdl(nodes);
+  assert.equal(serialized, 'node "a \\"quoted\\" word" "C:\\\\raw" tab="x\\ty" "two words"=1\n');
+  assert.deepEqual(withoutPositions(parseKdl(serialized)), withoutPositions(nodes));
+});
+
+test('comments and slashdash-ed nodes are dropped', () => {
+  const nodes = parseKdl('// comment\n/-skipped 1\nkept /* inline */ 2 /-3\n');
+  assert.deepEqual(withoutPositions(nodes), [{ name: 'kept', args: [2], props: {}, children: [] }]);
+});
+
+test('layouts with pane and tab templates round-trip through the typed model', () => {
+  const layout = parseLayout(LAYOUT, 'dev');
+
+  assert.deepEqual(layout.pane_templates, [{ name: 'editor', command: 'nvim', args: ['--listen', '/tmp/nvim "main".sock'] }]);
+  assert.equal(layout.tab_templates[0].name, 'with-bar');
+  assert.deepEqual(layout.tab_templates[0].panes[1], { children_placeholder: true });
+  assert.equal(layout.tabs[0].template, 'with-bar');
+  assert.deepEqual(layout.tabs[0].panes[0], { template: 'editor', cwd: 'src' });
+  assert.deepEqual(layout.tabs[0].panes[1].panes, [
+    { name: 'tab\there', command: 'bash' },
+    { command: 'C:\\path', size: '30%' },
+  ]);
+
+  assert.deepEqual(parseLayout(serializeLayout(layout), 'dev'), layout);
+});
+
+test('parse errors report their line and column', () => {
+  assert.throws(() => parseKdl('layout {\n    pane "unterminated\n'), { line: 2, column: 10 });
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeKey } from '../dist/utils/keys.js';
+
+const bytes = text => [...Buffer.from(text, 'utf8')];
+
+test('ctrl combinations map to control characters', () => {
+  assert.deepEqual(encodeKey('Ctrl-c'), [3]);
+  assert.deepEqual(encodeKey('ctrl+Z'), [26]);
+  assert.deepEqual(encodeKey('C-['), [27]);
+  assert.deepEqual(encodeKey('Ctrl-Space'), [0]);
+  assert.deepEqual(encodeKey('Ctrl-?'), [127]);
+  assert.equal(encodeKey('Ctrl-1'), undefined);
+});
+
+test('alt prefixes plain keys with ESC', () => {
+  assert.deepEqual(encodeKey('Alt-x'), [27, 120]);
+  assert.deepEqual(encodeKey('M-Enter'), [27, 13]);
+  assert.deepEqual(encodeKey('Alt-Ctrl-c'), [27, 3]);
+});
+
+test('function keys use SS3 for F1-F4 and tilde codes above', () => {
+  assert.deepEqual(encodeKey('F1'), bytes('\x1bOP'));
+  assert.deepEqual(encodeKey('f4'), bytes('\x1bOS'));
+  assert.deepEqual(encodeKey('F5'), bytes('\x1b[15~'));
+  assert.deepEqual(encodeKey('F12'), bytes('\x1b[24~'));
+});
+
+test('modified cursor, function and tilde keys carry an xterm modifier parameter', () => {
+  assert.deepEqual(encodeKey('Ctrl-Up'), bytes('\x1b[1;5A'));
+  assert.deepEqual(encodeKey('Alt-Left'), bytes('\x1b[1;3D'));
+  assert.deepEqual(encodeKey('Shift-F1'), bytes('\x1b[1;2P'));
+  assert.deepEqual(encodeKey('Ctrl-Shift-F5'), bytes('\x1b[15;6~'));
+  assert.deepEqual(encodeKey('Alt-Delete'), bytes('\x1b[3;3~'));
+});
+
+test('named and literal keys', () => {
+  assert.deepEqual(encodeKey('Esc'), [27]);
+  assert.deepEqual(encodeKey('Shift-Tab'), bytes('\x1b[Z'));
+  assert.deepEqual(encodeKey('Page Up'), bytes('\x1b[5~'));
+  assert.deepEqual(encodeKey('é'), bytes('é'));
+  assert.equal(encodeKey('bogus'), undefined);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkLayout } from '../dist/utils/layout.js';
+
+test('a valid layout has no diagnostics', () => {
+  assert.deepEqual(checkLayout('layout {\n    pane command="htop"\n}\n'), []);
+});
+
+test('diagnostics point at the offending node, in source order', () => {
+  const diagnostics = checkLayout(`layout {
+    tab name="main" {
+        pane size="60%"
+        pane size="30%" {
+            pane bogus=1
+        }
+        pane split_direction="diagonal"
+    }
+    mystery
+}
+`);
+
+  assert.deepEqual(diagnostics.map(({ message, line, column }) => [message, line, column]), [
+    ['Unknown property "bogus" on pane', 5, 13],
+    ['Invalid split_direction "diagonal"; expected "horizontal" or "vertical"', 7, 9],
+    ['Unknown node "mystery" in layout', 9, 5],
+  ]);
+});
+
+test('oversized panes are reported at the first one past 100%', () => {
+  const diagnostics = checkLayout(`layout {
+    tab {
+        pane size="60%"
+        pane
+        pane size="30%"
+        pane size="20%"
+        pane size="10%"
+    }
+}
+`);
+
+  assert.deepEqual(diagnostics, [
+    { severity: 'error', message: 'Pane sizes in tab add up to 120%, more than 100%', line: 6, column: 9 },
+  ]);
+});
+
+test('KDL syntax errors become a single diagnostic', () => {
+  assert.deepEqual(checkLayout('layout {\n  pane {\n'), [
+    { severity: 'error', message: 'Unterminated children block, expected "}"', line: 3, column: 1 },
+  ]);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { replResponse } from '../dist/utils/screen.js';
+
+const PYTHON = /^(>>>|\.\.\.)\s*$/;
+const BASH = /[$#]\s*$/;
+
+// What the pane showed before the input was sent, minus the prompt row
+const HISTORY = ['Python 3.12.1', 'Type "help" for more information.', '>>> x = 2'];
+
+test('nothing is returned until the input has been echoed', () => {
+  assert.equal(replResponse([...HISTORY, '>>>'], HISTORY, 'x * 21', PYTHON), undefined);
+});
+
+test('output after the echo is partial until the prompt is back on the last row', () => {
+  assert.deepEqual(replResponse([...HISTORY, '>>> x * 21'], HISTORY, 'x * 21', PYTHON), { lines: [] });
+  assert.deepEqual(replResponse([...HISTORY, '>>> x * 21', '42'], HISTORY, 'x * 21', PYTHON), { lines: ['42'] });
+  assert.deepEqual(replResponse([...HISTORY, '>>> x * 21', '42', '>>>'], HISTORY, 'x * 21', PYTHON), { lines: ['42'], prompt: '>>>' });
+});
+
+test('a prompt in the echo and in the output only counts on the last row', () => {
+  const input = `print('>>>\\n$ ok')`;
+  const screen = [...HISTORY, `>>> ${input}`, '>>>', '$ ok', '>>>'];
+  assert.deepEqual(replResponse(screen, HISTORY, input, PYTHON), { lines: ['>>>', '$ ok'], prompt: '>>>' });
+
+  const shell = ['user@host:~$ ls', 'notes.txt', `user@host:~$ echo 'costs 5$' '#'`, 'costs 5$ #', 'user@host:~$'];
+  assert.deepEqual(replResponse(shell, shell.slice(0, 2), `echo 'costs 5$' '#'`, BASH), { lines: ['costs 5$ #'], prompt: 'user@host:~$' });
+});
+
+test('output that repeats the history anchor does not hide the echo', () => {
+  // Running the same command again prints the same rows the anchor was taken from
+  const history = ['>>> print(1)', '1', '>>> print(1)', '1'];
+  const screen = [...history, '>>> print(1)', '1', '>>>'];
+  assert.deepEqual(replResponse(screen, history, 'print(1)', PYTHON), { lines: ['1'], prompt: '>>>' });
+});
+
+test('an echo soft-wrapped over several rows ends on its last row', () => {
+  const input = 'values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]; len(values)';
+  const screen = [...HISTORY, '>>> values = [1, 2, 3, 4, 5, 6', ', 7, 8, 9, 10]; len(values)', '10', '>>>'];
+  assert.deepEqual(replResponse(screen, HISTORY, input, PYTHON), { lines: ['10'], prompt: '>>>' });
+});
+
+test('a cleared screen falls back to looking for the echo anywhere', () => {
+  assert.deepEqual(replResponse(['>>> x * 21', '42', '>>>'], HISTORY, 'x * 21', PYTHON), { lines: ['42'], prompt: '>>>' });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSchema, dropNulls } from '../dist/utils/schema.js';
+import { ToolRegistry, defineTool } from '../dist/registry.js';
+import { ValidationError } from '../dist/types/zellij.js';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    count: { type: 'integer' },
+    mode: { type: 'string', enum: ['fast', 'slow'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['name'],
+};
+
+test('matching arguments pass, with null optional ones treated as omitted', () => {
+  assert.deepEqual(checkSchema({ name: 'a', count: 2, mode: 'fast', tags: ['x'] }, SCHEMA, ''), []);
+  assert.deepEqual(checkSchema({ name: 'a', count: null }, SCHEMA, ''), []);
+  assert.deepEqual(dropNulls({ name: 'a', count: null, tags: [null] }), { name: 'a', tags: [null] });
+});
+
+test('unknown arguments are rejected', () => {
+  assert.deepEqual(checkSchema({ name: 'a', colour: 'red' }, SCHEMA, ''), ['colour is not a known argument']);
+});
+
+test('missing and null required arguments are rejected', () => {
+  assert.deepEqual(checkSchema({}, SCHEMA, ''), ['name is required']);
+  assert.deepEqual(checkSchema({ name: null }, SCHEMA, ''), ['name is required']);
+});
+
+test('wrong types are rejected with the argument path', () => {
+  assert.deepEqual(checkSchema({ name: 1, count: 1.5, mode: 'medium', tags: ['x', 2] }, SCHEMA, ''), [
+    'name must be a string',
+    'count must be an integer',
+    'mode must be one of: fast, slow',
+    'tags[1] must be a string',
+  ]);
+  assert.deepEqual(checkSchema('text', SCHEMA, 'args'), ['args must be an object']);
+});
+
+test('the registry checks arguments before calling a handler', async () => {
+  const calls = [];
+  const registry = new ToolRegistry();
+  registry.register([defineTool({
+    name: 'demo',
+    description: 'Demo tool',
+    inputSchema: SCHEMA,
+    handler: async args => {
+      calls.push(args);
+      return { content: [{ type: 'text', text: 'ok' }] };
+    },
+  })]);
+
+  await assert.rejects(registry.call('demo', { name: 'a', extra: true }, {}), ValidationError);
+  await assert.rejects(registry.call('demo', { name: 5 }, {}), /name must be a string/);
+  assert.equal(calls.length, 0);
+
+  await registry.call('demo', { name: 'a', count: null }, {});
+  assert.deepEqual(calls, [{ name: 'a' }]);
+});
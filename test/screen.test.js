@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { screenLines, joinWrappedLines } from '../dist/utils/screen.js';
+
+test('screenLines leaves rows alone without a pane width', () => {
+  assert.deepEqual(screenLines('$ ls -la /some/dir\ntotal 0\n\n'), ['$ ls -la /some/dir', 'total 0']);
+});
+
+test('screenLines re-joins rows that fill the pane width, keeping their trailing spaces', () => {
+  assert.deepEqual(screenLines('echo ab \ncd\n$ ls\ntotal 0\n', 8), ['echo ab cd', '$ ls', 'total 0']);
+});
+
+test('joinWrappedLines only joins rows at least as wide as the pane', () => {
+  assert.deepEqual(joinWrappedLines(['12345', '678', '12', '34'], 5), ['12345678', '12', '34']);
+  assert.deepEqual(joinWrappedLines(['12345', '67890'], 5), ['1234567890']);
+});
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionTools } from '../dist/tools/sessions.js';
+
+test('parseAge reads spaced and run-together units', () => {
+  assert.equal(SessionTools.parseAge('1day 2h 3m 4s'), 93784);
+  assert.equal(SessionTools.parseAge('3days'), 259200);
+  assert.equal(SessionTools.parseAge('1m30s'), 90);
+  assert.equal(SessionTools.parseAge('2h15m'), 8100);
+  assert.equal(SessionTools.parseAge('soon'), undefined);
+});
+
+test('parseSessionList keeps combined ages comparable', () => {
+  const sessions = SessionTools.parseSessionList([
+    'dev [Created 1m30s ago] (current)',
+    'old [Created 2h 3m ago] (EXITED - attach to resurrect)',
+  ].join('\n'));
+
+  assert.deepEqual(sessions.map(session => [session.name, session.createdSeconds]), [['dev', 90], ['old', 7380]]);
+  assert.equal(sessions[0].attached, true);
+  assert.equal(sessions[1].exited, true);
+});
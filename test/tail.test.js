@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LineBuffer, FileTail } from '../dist/utils/tail.js';
+import { DetectionTools } from '../dist/tools/detection.js';
+
+function withTempDir(run) {
+  const dir = mkdtempSync(join(tmpdir(), 'zellij-mcp-tail-'));
+  return Promise.resolve(run(dir)).finally(() => rmSync(dir, { recursive: true, force: true }));
+}
+
+test('LineBuffer carries partial lines across chunks and numbers lines throughout', () => {
+  const buffer = new LineBuffer(2);
+
+  assert.deepEqual(buffer.push('one\ntw'), { lines: ['one'], before: [], firstLineNumber: 1 });
+  assert.deepEqual(buffer.push('o\r\nthree\nfo'), { lines: ['two', 'three'], before: ['one'], firstLineNumber: 2 });
+  assert.deepEqual(buffer.push(''), { lines: [], before: ['two', 'three'], firstLineNumber: 4 });
+  assert.deepEqual(buffer.flush(), { lines: ['fo'], before: ['two', 'three'], firstLineNumber: 4 });
+});
+
+test('FileTail reads only appended bytes, in chunks, without splitting characters', () => withTempDir(dir => {
+  const path = join(dir, 'log');
+  const tail = new FileTail(path);
+  assert.deepEqual([...tail.read()], []);
+
+  writeFileSync(path, 'héllo\n');
+  // Three-byte chunks split the two-byte é
+  assert.equal([...tail.read(3)].join(''), 'héllo\n');
+  assert.deepEqual([...tail.read(3)], []);
+
+  appendFileSync(path, 'world\n');
+  assert.equal([...tail.read()].join(''), 'world\n');
+
+  // Truncated or rotated files are read again from the start
+  writeFileSync(path, 'new\n');
+  assert.equal([...tail.read()].join(''), 'new\n');
+}));
+
+test('FileTail can start at the current end of the file', () => withTempDir(dir => {
+  const path = join(dir, 'log');
+  writeFileSync(path, 'old\n');
+  const tail = new FileTail(path, true);
+  appendFileSync(path, 'new\n');
+  assert.equal([...tail.read()].join(''), 'new\n');
+}));
+
+test('a file match waits for after-context written by a later append', () => withTempDir(async dir => {
+  const path = join(dir, 'log');
+  writeFileSync(path, 'start\nERROR boom\nnext\n');
+
+  const watching = DetectionTools.watchFile(path, ['ERROR'], 10000, { contextLines: 2 });
+  setTimeout(() => appendFileSync(path, 'after\nlater\n'), 100);
+  const response = await watching;
+
+  const match = JSON.parse(response.content[1].text);
+  assert.equal(match.lineNumber, 2);
+  assert.deepEqual(match.context, ['start', 'ERROR boom', 'next', 'after']);
+}));